@@ -0,0 +1,83 @@
+/**
+ * Large .astro sources for the benchmarks
+ *
+ * The fixtures are generated rather than checked in, so they can be
+ * several megabytes without bloating the repository. Each one repeats a
+ * section that mixes the constructs the tokenizer and parser handle:
+ * components with directives, attributes of every kind, expressions with
+ * embedded markup, raw text elements, comments and plain text.
+ */
+
+const FRONTMATTER = `---
+import Layout from '../layouts/Layout.astro'
+import Card from '../components/Card.astro'
+import Counter from '../components/Counter.tsx'
+
+export interface Props {
+  title: string
+  items: { id: number; name: string }[]
+}
+
+const { title, items } = Astro.props
+---
+`
+
+/**
+ * One repeated section of the page body
+ */
+function section(index: number): string {
+  return `<section id="section-${index}" class:list={['section', { odd: ${index % 2} }]}>
+  <!-- Section ${index} -->
+  <h2 class="title" data-index=${index}>{title} #${index}</h2>
+  <p>
+    Lorem ipsum dolor sit amet, <strong>consectetur</strong> adipiscing elit, sed do eiusmod
+    tempor incididunt ut <a href={\`/posts/\${items[0].id}\`}>labore</a> et dolore magna aliqua.
+  </p>
+  <ul>
+    {items.map(item => (
+      <li key={item.id}><Card title={item.name} {...item} /></li>
+    ))}
+  </ul>
+  <Counter client:visible initial={${index}} />
+  <img src="/images/${index}.png" alt="" loading="lazy">
+  <style>
+    #section-${index} > .title { color: red; }
+  </style>
+  <script>
+    if (window.innerWidth < 600) console.log('section ${index}')
+  </script>
+</section>
+`
+}
+
+/**
+ * Generate an Astro page of at least `size` characters
+ *
+ * @param size - The minimum length of the source, in characters
+ * @returns The page source
+ */
+export function generatePage(size: number): string {
+  const parts = [FRONTMATTER, '<Layout title={title}>\n']
+  let length = parts[0].length + parts[1].length
+  for (let index = 0; length < size; index++) {
+    const part = section(index)
+    parts.push(part)
+    length += part.length
+  }
+  parts.push('</Layout>\n')
+  return parts.join('')
+}
+
+/**
+ * Generate a page of at least `size` characters that is mostly one inline
+ * script, so raw text scanning dominates
+ *
+ * @param size - The minimum length of the source, in characters
+ * @returns The page source
+ */
+export function generateScriptPage(size: number): string {
+  const line = "document.querySelectorAll('a').forEach(link => link.classList.add('x'))\n"
+  return `<script is:inline>\n${line.repeat(Math.ceil(size / line.length))}</script>\n`
+}
+
+export const MB = 1024 * 1024
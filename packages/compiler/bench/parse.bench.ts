@@ -0,0 +1,43 @@
+import { bench, describe } from 'vitest'
+import { buildHTML } from '../src/html-builder/index.js'
+import { parse } from '../src/parser/index.js'
+import { tokenize } from '../src/tokenizer/index.js'
+import { MB, generatePage, generateScriptPage } from './fixtures.js'
+
+/**
+ * A few iterations are enough: each run already processes megabytes
+ */
+const OPTIONS = { time: 0, iterations: 5, warmupIterations: 1 }
+
+/**
+ * The work measured on each fixture
+ */
+const TASKS: [name: string, run: (source: string) => unknown][] = [
+  ['tokenize', source => tokenize(source)],
+  ['tokenize (preserveWhitespace)', source => tokenize(source, { preserveWhitespace: true })],
+  ['parse', source => parse(source)],
+  ['parse (parseExpressions)', source => parse(source, { parseExpressions: true })],
+  ['parse + buildHTML', source => buildHTML(parse(source))],
+]
+
+// The 4 MB results should be about four times the 1 MB ones; more means a step is superlinear
+const fixtures = [
+  { name: '1 MB page', source: generatePage(MB) },
+  { name: '4 MB page', source: generatePage(4 * MB) },
+  { name: '4 MB inline script', source: generateScriptPage(4 * MB) },
+]
+
+for (const { name, source } of fixtures) {
+  describe(name, () => {
+    for (const [task, run] of TASKS) {
+      // Async so the worker can answer vitest between runs that each take a while
+      bench(
+        task,
+        async () => {
+          run(source)
+        },
+        OPTIONS,
+      )
+    }
+  })
+}
@@ -0,0 +1,100 @@
+/**
+ * Code frame rendering
+ *
+ * Renders the lines around a source span with line numbers and a
+ * `^^^` marker under the offending text, for error output.
+ *
+ * @module code-frame
+ */
+
+import type { SourceSpan } from '../tokenizer/types.js'
+
+/**
+ * Number of lines shown above and below the highlighted line
+ */
+const CONTEXT_LINES = 2
+
+/**
+ * Render a code frame pointing at a span of the source
+ *
+ * Only the first line of a multi-line span is underlined.
+ *
+ * @param source - The full source text
+ * @param span - The range to highlight
+ * @returns The rendered frame
+ *
+ * @example
+ * ```typescript
+ * codeFrame('<div>\n  {name\n</div>', span)
+ * //   1 | <div>
+ * // > 2 |   {name
+ * //     |   ^^^^^
+ * //   3 | </div>
+ * ```
+ */
+export function codeFrame(source: string, span: SourceSpan): string {
+  const { start, end } = span
+  const { lines, first } = linesAround(source, start.offset, start.line)
+  const last = first + lines.length - 1
+  const gutterWidth = String(last).length
+
+  const output: string[] = []
+  for (const [index, line] of lines.entries()) {
+    const lineNumber = first + index
+    const text = line.replace(/\r$/, '')
+    const gutter = String(lineNumber).padStart(gutterWidth)
+
+    if (lineNumber !== start.line) {
+      output.push(`  ${gutter} |${text ? ` ${text}` : ''}`)
+      continue
+    }
+
+    output.push(`> ${gutter} | ${text}`)
+    const endColumn = end.line === start.line ? end.column : text.length + 1
+    const width = Math.max(1, endColumn - start.column)
+    const padding = ' '.repeat(gutterWidth)
+    output.push(`  ${padding} | ${' '.repeat(start.column - 1)}${'^'.repeat(width)}`)
+  }
+
+  return output.join('\n')
+}
+
+/**
+ * Collect the line containing `offset` and up to CONTEXT_LINES lines on either side
+ *
+ * Only the lines shown are looked at, so rendering a frame costs the same
+ * however long the source is.
+ *
+ * @param source - The full source text
+ * @param offset - An offset on the highlighted line
+ * @param line - The 1-based number of the highlighted line
+ * @returns The lines, and the number of the first one
+ */
+function linesAround(
+  source: string,
+  offset: number,
+  line: number,
+): { lines: string[]; first: number } {
+  // lastIndexOf treats a negative start as 0, so the first line is checked for first
+  const lineStart = offset > 0 ? source.lastIndexOf('\n', offset - 1) + 1 : 0
+  const lineEnd = source.indexOf('\n', offset)
+  const lines = [source.slice(lineStart, lineEnd === -1 ? source.length : lineEnd)]
+
+  let before = lineStart
+  let first = line
+  while (first > line - CONTEXT_LINES && before > 0) {
+    const previous = before > 1 ? source.lastIndexOf('\n', before - 2) + 1 : 0
+    lines.unshift(source.slice(previous, before - 1))
+    before = previous
+    first--
+  }
+
+  let after = lineEnd
+  for (let count = 0; count < CONTEXT_LINES && after !== -1; count++) {
+    const next = source.indexOf('\n', after + 1)
+    lines.push(source.slice(after + 1, next === -1 ? source.length : next))
+    after = next
+  }
+
+  return { lines, first }
+}
@@ -0,0 +1,129 @@
+/**
+ * Structured compiler diagnostics
+ *
+ * Every problem the tokenizer, parser or HTML builder finds is described
+ * by a Diagnostic with a stable code, so tools can match on the code
+ * rather than on the message text.
+ *
+ * @module diagnostic
+ */
+
+import type { SourceSpan } from '../tokenizer/types.js'
+import { codeFrame } from './code-frame.js'
+
+/**
+ * Stable identifiers for every diagnostic the compiler can report
+ */
+export type DiagnosticCode =
+  | 'unexpected-token'
+  | 'unterminated-expression'
+  | 'unterminated-comment'
+  | 'unterminated-attribute-value'
+  | 'unterminated-frontmatter'
+  | 'invalid-frontmatter'
+  | 'misplaced-frontmatter'
+  | 'unclosed-element'
+  | 'unexpected-close-tag'
+  | 'invalid-shorthand-attribute'
+  | 'void-element-children'
+  | 'unknown-directive'
+  | 'invalid-directive'
+  | 'unknown-node'
+
+/**
+ * How serious a diagnostic is: errors mean the output can't be trusted
+ */
+export type DiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * A problem found while compiling a template
+ */
+export interface Diagnostic {
+  /** Stable, machine-readable identifier */
+  code: DiagnosticCode
+  severity: DiagnosticSeverity
+  /** Human-readable description of the problem */
+  message: string
+  /** Where the problem is; absent for nodes built without positions */
+  span?: SourceSpan
+  /** Suggestion for fixing the problem */
+  hint?: string
+  /** The source around `span` with the offending text underlined */
+  frame?: string
+}
+
+/**
+ * Receives diagnostics as they are found
+ */
+export type DiagnosticHandler = (diagnostic: Diagnostic) => void
+
+/**
+ * Create a diagnostic, rendering its code frame when the source is available
+ *
+ * @param source - The source text the span refers to, if known
+ * @param diagnostic - The diagnostic without its frame
+ * @returns The complete diagnostic
+ */
+export function createDiagnostic(
+  source: string | undefined,
+  diagnostic: Omit<Diagnostic, 'frame'>,
+): Diagnostic {
+  if (source === undefined || !diagnostic.span) {
+    return { ...diagnostic }
+  }
+  return { ...diagnostic, frame: codeFrame(source, diagnostic.span) }
+}
+
+/**
+ * Format a diagnostic for terminal or log output
+ *
+ * @param diagnostic - The diagnostic to format
+ * @returns The message with its code, location, code frame and hint
+ *
+ * @example
+ * ```typescript
+ * formatDiagnostic(diagnostic)
+ * // error[unterminated-expression]: Expression is never closed (2:3)
+ * // > 2 |   {name
+ * //     |   ^^^^^
+ * // hint: Add a closing `}`
+ * ```
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const { code, severity, message, span, hint, frame } = diagnostic
+  const location = span ? ` (${span.start.line}:${span.start.column})` : ''
+  let output = `${severity}[${code}]: ${message}${location}`
+  if (frame) {
+    output += `\n${frame}`
+  }
+  if (hint) {
+    output += `\nhint: ${hint}`
+  }
+  return output
+}
+
+/**
+ * An error thrown by the compiler, carrying the diagnostic that caused it
+ *
+ * The message is the formatted diagnostic, so logging the error shows
+ * the location and code frame.
+ */
+export class CompilerError extends Error {
+  readonly diagnostic: Diagnostic
+
+  constructor(diagnostic: Diagnostic) {
+    super(formatDiagnostic(diagnostic))
+    this.name = 'CompilerError'
+    this.diagnostic = diagnostic
+  }
+
+  /** Stable identifier of the underlying diagnostic */
+  get code(): DiagnosticCode {
+    return this.diagnostic.code
+  }
+
+  /** Where the error is in the source */
+  get span(): SourceSpan | undefined {
+    return this.diagnostic.span
+  }
+}
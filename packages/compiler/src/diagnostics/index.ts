@@ -0,0 +1,16 @@
+/**
+ * Diagnostics module exports
+ *
+ * Structured errors and warnings shared by the tokenizer, parser and HTML builder.
+ *
+ * @module diagnostics
+ */
+
+export { CompilerError, createDiagnostic, formatDiagnostic } from './diagnostic.js'
+export { codeFrame } from './code-frame.js'
+export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticHandler,
+  DiagnosticSeverity,
+} from './diagnostic.js'
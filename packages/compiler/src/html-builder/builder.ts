@@ -7,8 +7,47 @@
  * @module builder
  */
 
+import { createDiagnostic } from '../diagnostics/diagnostic.js'
+import type { DiagnosticHandler } from '../diagnostics/diagnostic.js'
 import type { AstroAST, AstroNode } from '../parser/ast.js'
-import { serializeElement, serializeText } from './serializer.js'
+import { walk } from '../parser/utils.js'
+import { createMappedOutput } from '../sourcemap/source-map.js'
+import type { SourceMap } from '../sourcemap/source-map.js'
+import type { HtmlOutput, SerializeOptions } from './serializer.js'
+import {
+  serializeComment,
+  serializeDoctype,
+  serializeProcessingInstruction,
+  serializeText,
+  toText,
+  writeElement,
+} from './serializer.js'
+
+/**
+ * Options for building HTML from an AST
+ */
+export interface BuildOptions extends SerializeOptions {
+  /** Called for each problem found in the AST, such as content that can't be output */
+  onDiagnostic?: DiagnosticHandler
+  /**
+   * The source the AST was parsed from, used to render code frames for
+   * diagnostics and embedded in the source map
+   */
+  source?: string
+  /** Also return a source map from the HTML back to the .astro source */
+  sourceMap?: boolean
+  /** The name of the .astro file, recorded in the source map (default: `input.astro`) */
+  filename?: string
+}
+
+/**
+ * HTML built with `sourceMap: true`
+ */
+export interface BuildResult {
+  html: string
+  /** Maps the HTML back to the .astro source, using the positions of the AST nodes */
+  map: SourceMap
+}
 
 /**
  * Set of HTML void elements that are self-closing
@@ -37,7 +76,29 @@ function isVoidElement(tagName: string): boolean {
 }
 
 /**
- * Builds an HTML string from an AST node
+ * Warn about void elements that have children, which can't be written out
+ *
+ * @param ast - The AST to check
+ * @param options - Build options carrying the diagnostic handler
+ */
+function reportVoidElementChildren(ast: AstroAST, options: BuildOptions): void {
+  walk(ast, node => {
+    if (node.type === 'Element' && isVoidElement(node.name) && node.children.length > 0) {
+      options.onDiagnostic?.(
+        createDiagnostic(options.source, {
+          code: 'void-element-children',
+          severity: 'warning',
+          message: `<${node.name}> is a void element and can't have children`,
+          span: node.position,
+          hint: `Write it as <${node.name} /> and move the content after it`,
+        }),
+      )
+    }
+  })
+}
+
+/**
+ * Builds HTML from an AST node
  *
  * Recursively processes AST nodes and converts them to HTML.
  * Handles different node types appropriately:
@@ -47,37 +108,71 @@ function isVoidElement(tagName: string): boolean {
  * - Other nodes (Frontmatter, Expression) are skipped or handled specially
  *
  * @param node - The AST node to convert
- * @returns HTML string representation
+ * @param options - Build options
+ * @param output - Where to write the HTML, mapped to the node positions
  */
-function buildNode(node: AstroNode): string {
+function buildNode(node: AstroNode, options: BuildOptions, output: HtmlOutput): void {
+  const start = node.position?.start
   switch (node.type) {
     case 'Text':
-      return serializeText(node)
+      output.write(serializeText(node), start)
+      return
 
     case 'Element':
       // Check if it's a void element and update selfClosing accordingly
       if (isVoidElement(node.name)) {
-        return serializeElement({ ...node, selfClosing: true })
+        writeElement({ ...node, selfClosing: true }, options, output)
+        return
       }
-      return serializeElement(node)
+      writeElement(node, options, output)
+      return
+
+    case 'Comment':
+      output.write(serializeComment(node, options), start)
+      return
+
+    case 'Doctype':
+      output.write(serializeDoctype(node), start)
+      return
+
+    case 'ProcessingInstruction':
+      output.write(serializeProcessingInstruction(node), start)
+      return
 
     case 'Expression':
       // Expressions in the template should be rendered as-is for now
       // In a full implementation, these would be evaluated
-      return `{${node.value}}`
+      if (node.children) {
+        // Code chunks are raw Text; markup inside the expression is built like any other
+        output.write('{', start)
+        for (const child of node.children) buildNode(child, options, output)
+        output.write('}')
+        return
+      }
+      output.write(`{${node.value}}`, start)
+      return
 
     case 'Program':
     case 'Template':
       // Container nodes: concatenate all children
-      return node.children.map(child => buildNode(child)).join('')
+      for (const child of node.children) buildNode(child, options, output)
+      return
 
     case 'Frontmatter':
       // Frontmatter is not rendered in the HTML output
-      return ''
+      return
 
     default:
       // Unknown node types are ignored
-      return ''
+      options.onDiagnostic?.(
+        createDiagnostic(options.source, {
+          code: 'unknown-node',
+          severity: 'warning',
+          message: `Unknown node type ${(node as { type?: unknown }).type}`,
+          hint: 'Only nodes produced by parse() can be built',
+        }),
+      )
+      return
   }
 }
 
@@ -88,20 +183,46 @@ function buildNode(node: AstroNode): string {
  * into HTML. It processes the entire AST tree and returns the
  * resulting HTML string.
  *
+ * With `sourceMap: true` it returns the HTML together with a v3 source
+ * map built from the node positions, so that the output can be traced
+ * back to the lines of the .astro file. Nodes without a position (such as
+ * ones added by `transform`) are left unmapped.
+ *
  * @param ast - The Astro AST to convert
- * @returns Complete HTML string
+ * @param options - Build options
+ * @returns Complete HTML string, or the HTML and its source map
  *
  * @example
  * ```typescript
  * const ast = parse('<p>Hello World</p>')
  * const html = buildHTML(ast)
  * console.log(html) // '<p>Hello World</p>'
+ *
+ * const { map } = buildHTML(ast, { sourceMap: true, filename: 'Page.astro', source })
+ * writeFileSync('page.html.map', JSON.stringify(map))
  * ```
  */
-export function buildHTML(ast: AstroAST): string {
-  if (!ast || !ast.children || ast.children.length === 0) {
-    return ''
+export function buildHTML(ast: AstroAST, options: BuildOptions & { sourceMap: true }): BuildResult
+export function buildHTML(ast: AstroAST, options?: BuildOptions): string
+export function buildHTML(ast: AstroAST, options: BuildOptions = {}): string | BuildResult {
+  const build = (output: HtmlOutput) => {
+    if (!ast || !ast.children || ast.children.length === 0) {
+      return
+    }
+    if (options.onDiagnostic) {
+      reportVoidElementChildren(ast, options)
+    }
+    for (const child of ast.children) buildNode(child, options, output)
   }
 
-  return ast.children.map(child => buildNode(child)).join('')
+  if (!options.sourceMap) {
+    return toText(build)
+  }
+
+  const output = createMappedOutput()
+  build(output)
+  return {
+    html: output.toString(),
+    map: output.toSourceMap({ sourceFileName: options.filename, sourceContent: options.source }),
+  }
 }
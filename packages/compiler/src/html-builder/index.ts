@@ -8,5 +8,13 @@
  */
 
 export { escapeHtml } from './escape.js'
-export { serializeText, serializeElement } from './serializer.js'
+export {
+  serializeText,
+  serializeElement,
+  serializeComment,
+  serializeDoctype,
+  serializeProcessingInstruction,
+} from './serializer.js'
 export { buildHTML } from './builder.js'
+export type { SerializeOptions } from './serializer.js'
+export type { BuildOptions, BuildResult } from './builder.js'
@@ -7,14 +7,95 @@
  * @module serializer
  */
 
-import type { AstroNode, ElementNode, ExpressionNode, TextNode } from '../parser/ast.js'
+import type {
+  AstroNode,
+  CommentNode,
+  Directive,
+  DoctypeNode,
+  ElementAttribute,
+  ElementNode,
+  ExpressionNode,
+  Point,
+  ProcessingInstructionNode,
+  TextNode,
+} from '../parser/ast.js'
+import { getElementKind } from '../parser/ast.js'
+import type { MappedOutput } from '../sourcemap/source-map.js'
 import { escapeHtml } from './escape.js'
 
+/**
+ * Options that control HTML serialization
+ */
+export interface SerializeOptions {
+  /**
+   * Drop comments from the output. Conditional comments (`<!--[if IE]>...`)
+   * are kept because browsers act on them.
+   */
+  removeComments?: boolean
+}
+
+/**
+ * Where serialized HTML is written, each piece with the source position it came from
+ */
+export type HtmlOutput = Pick<MappedOutput, 'write'>
+
+/**
+ * Run a serializer against an output that only collects the text
+ */
+export function toText(serialize: (output: HtmlOutput) => void): string {
+  let text = ''
+  serialize({
+    write(chunk) {
+      text += chunk
+    },
+  })
+  return text
+}
+
+/**
+ * Matches the `[if ...]>` prefix of a conditional comment
+ */
+const CONDITIONAL_COMMENT_REGEX = /^\[if\s[^\]]*\]>/
+
+/**
+ * Elements whose text content is written out without escaping
+ *
+ * `<title>` and `<textarea>` are not among them: their content can't hold
+ * tags, but it is still escaped so that text can't end the element early.
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style'])
+
+/**
+ * Checks if an attribute is the `is:raw` directive
+ */
+function isRawDirective(attr: ElementAttribute): boolean {
+  return attr.type !== 'SpreadAttribute' && attr.name === 'is:raw'
+}
+
+/**
+ * Checks if a parsed directive is `is:raw`
+ */
+function isRawContentDirective(directive: Directive): boolean {
+  return directive.namespace === 'is' && directive.name === 'raw'
+}
+
+/**
+ * Checks if an element's text content must be emitted verbatim
+ */
+function hasRawContent(node: ElementNode): boolean {
+  return (
+    RAW_TEXT_ELEMENTS.has(node.name.toLowerCase()) ||
+    node.attributes.some(isRawDirective) ||
+    !!node.directives?.some(isRawContentDirective)
+  )
+}
+
 /**
  * Serializes a text node to HTML
  *
  * Converts a TextNode to an HTML-safe string by escaping
- * special characters to prevent XSS attacks.
+ * special characters to prevent XSS attacks. Raw text
+ * (script/style content and the like) is returned unchanged.
  *
  * @param node - The text node to serialize
  * @returns HTML-escaped text content
@@ -26,29 +107,198 @@ import { escapeHtml } from './escape.js'
  * ```
  */
 export function serializeText(node: TextNode): string {
-  return escapeHtml(node.value)
+  return node.raw ? node.value : escapeHtml(node.value)
 }
 
 /**
- * Serializes attributes to HTML attribute string
+ * Serializes a comment node to HTML
+ *
+ * The comment text is written verbatim, since escaping it would
+ * change what tools reading the comment (e.g. SSI processors) see.
  *
- * @param attributes - Array of element attributes
- * @returns Formatted attribute string
+ * @param node - The comment node to serialize
+ * @param options - Serialization options
+ * @returns The comment markup, or an empty string if comments are removed
+ *
+ * @example
+ * ```typescript
+ * serializeComment({ type: 'Comment', value: ' License: MIT ' })
+ * // Returns: '<!-- License: MIT -->'
+ * ```
  */
-function serializeAttributes(
-  attributes: Array<{ name: string; value: string | ExpressionNode }>,
-): string {
-  if (!attributes.length) return ''
+export function serializeComment(node: CommentNode, options: SerializeOptions = {}): string {
+  if (options.removeComments && !CONDITIONAL_COMMENT_REGEX.test(node.value)) {
+    return ''
+  }
+  return `<!--${node.value}-->`
+}
 
-  const attrStrings = attributes.map(attr => {
-    // For expression values, we render them as-is (without escaping)
-    // since they represent dynamic JavaScript expressions
-    const value = typeof attr.value === 'string' ? escapeHtml(attr.value) : `{${attr.value.value}}`
+/**
+ * Serializes a DOCTYPE node to HTML
+ *
+ * The declaration is written as it was in the source, keyword case and
+ * spacing included; a node built without `raw` gets `<!DOCTYPE ...>`.
+ *
+ * @param node - The doctype node to serialize
+ * @returns The DOCTYPE declaration, written without escaping
+ *
+ * @example
+ * ```typescript
+ * serializeDoctype({ type: 'Doctype', value: 'html', raw: '<!doctype html>' })
+ * // Returns: '<!doctype html>'
+ * serializeDoctype({ type: 'Doctype', value: 'html' })
+ * // Returns: '<!DOCTYPE html>'
+ * ```
+ */
+export function serializeDoctype(node: DoctypeNode): string {
+  return node.raw ?? `<!DOCTYPE ${node.value}>`
+}
 
-    return `${attr.name}="${value}"`
-  })
+/**
+ * Serializes a processing instruction node to HTML
+ *
+ * @param node - The processing instruction node to serialize
+ * @returns The processing instruction, written without escaping
+ *
+ * @example
+ * ```typescript
+ * serializeProcessingInstruction({ type: 'ProcessingInstruction', value: 'xml version="1.0"' })
+ * // Returns: '<?xml version="1.0"?>'
+ * ```
+ */
+export function serializeProcessingInstruction(node: ProcessingInstructionNode): string {
+  return `<?${node.value}?>`
+}
+
+/**
+ * Serializes an attribute to HTML
+ *
+ * Boolean attributes (kind `'empty'`) are written as a bare name;
+ * every other value is written double-quoted, whatever the source used.
+ * Shorthand and spread attributes are written back as `{name}` and `{...value}`,
+ * and template-literal values keep their backticks.
+ *
+ * @param attr - The element attribute
+ * @returns Formatted attribute
+ */
+function serializeAttribute(attr: ElementAttribute): string {
+  if (attr.type === 'ShorthandAttribute') {
+    return `{${attr.value.value}}`
+  }
+
+  if (attr.type === 'SpreadAttribute') {
+    return `{...${attr.value.value}}`
+  }
+
+  if (attr.kind === 'empty') {
+    return attr.name
+  }
+
+  if (attr.kind === 'template-literal' && typeof attr.value !== 'string') {
+    return `${attr.name}=${attr.value.value}`
+  }
+
+  // For expression values, we render them as-is (without escaping)
+  // since they represent dynamic JavaScript expressions
+  const value = typeof attr.value === 'string' ? escapeHtml(attr.value) : `{${attr.value.value}}`
 
-  return ` ${attrStrings.join(' ')}`
+  return `${attr.name}="${value}"`
+}
+
+/**
+ * A piece of output and where it starts in the source
+ */
+interface Piece {
+  text: string
+  start?: Point
+}
+
+/**
+ * Serializes a value as attribute or element content: strings escaped unless `raw`, expressions as-is
+ */
+function serializeValue(value: string | ExpressionNode, raw = false): string {
+  if (typeof value !== 'string') {
+    return `{${value.value}}`
+  }
+  return raw ? value : escapeHtml(value)
+}
+
+/**
+ * Serializes an element's attributes and the directives that become attributes
+ *
+ * A static `class:list` value is merged into a static `class` attribute.
+ * One written as an expression can only be resolved at runtime, so it is
+ * written back as the `class:list` attribute instead of being joined into
+ * the class text. `is:raw` is dropped since it is a compiler directive, and
+ * any other directive that doesn't set the content (`client:*`,
+ * `define:vars`, ...) is written back as the attribute it was written as.
+ *
+ * @param node - The element node
+ * @returns One piece per attribute, in source order
+ */
+function serializeStartTagAttributes(node: ElementNode): Piece[] {
+  const pieces: Piece[] = []
+  let classIndex = -1
+  let classValue: string | undefined
+  let hasDynamicClass = false
+
+  for (const attr of node.attributes) {
+    if (isRawDirective(attr)) continue
+    if (attr.type === 'Attribute' && attr.name === 'class' && attr.kind !== 'empty') {
+      if (typeof attr.value === 'string') {
+        classIndex = pieces.length
+        classValue = escapeHtml(attr.value)
+      } else {
+        hasDynamicClass = true
+      }
+    }
+    pieces.push({ text: serializeAttribute(attr), start: attr.position?.start })
+  }
+
+  for (const directive of node.directives ?? []) {
+    const start = directive.position?.start
+    if (
+      directive.namespace === 'class' &&
+      typeof directive.value === 'string' &&
+      !hasDynamicClass
+    ) {
+      const list = escapeHtml(directive.value)
+      if (classValue === undefined) {
+        classIndex = pieces.length
+        classValue = list
+        pieces.push({ text: `class="${list}"`, start })
+      } else {
+        classValue = `${classValue} ${list}`
+        pieces[classIndex] = { ...pieces[classIndex], text: `class="${classValue}"` }
+      }
+    } else if (directive.namespace !== 'set' && !isRawContentDirective(directive)) {
+      pieces.push({
+        text: serializeAttribute({
+          type: 'Attribute',
+          name: `${directive.namespace}:${directive.name}`,
+          value: directive.value,
+          kind: directive.kind,
+        }),
+        start,
+      })
+    }
+  }
+
+  return pieces
+}
+
+/**
+ * The content a `set:html` or `set:text` directive gives an element in place of its children
+ *
+ * `set:html` content is written unescaped, `set:text` content escaped.
+ */
+function directiveContent(node: ElementNode): Piece | undefined {
+  const directive = node.directives?.filter(directive => directive.namespace === 'set').pop()
+  if (!directive) return undefined
+  return {
+    text: serializeValue(directive.value, directive.name === 'html'),
+    start: directive.valuePosition?.start ?? directive.position?.start,
+  }
 }
 
 /**
@@ -59,8 +309,14 @@ function serializeAttributes(
  * - Attributes with proper escaping
  * - Recursively serialized child nodes
  * - Self-closing tag handling
+ * - Unescaped text content for raw text elements and `is:raw`
+ * - Content from `set:html` (unescaped) or `set:text` (escaped) in place of the children
+ * - A static `class:list` merged into the `class` attribute; other directives
+ *   except `is:raw` are written back as attributes
+ * - Fragments, which are replaced by their children
  *
  * @param node - The element node to serialize
+ * @param options - Serialization options
  * @returns Complete HTML element string
  *
  * @example
@@ -75,43 +331,118 @@ function serializeAttributes(
  * // Returns: '<div class="container">Hello</div>'
  * ```
  */
-export function serializeElement(node: ElementNode): string {
-  const { name, attributes, children, selfClosing } = node
-  const attrString = serializeAttributes(attributes)
+export function serializeElement(node: ElementNode, options: SerializeOptions = {}): string {
+  return toText(output => writeElement(node, options, output))
+}
 
-  if (selfClosing) {
-    return `<${name}${attrString} />`
+/**
+ * Writes an element node as HTML, like `serializeElement`
+ *
+ * The start tag and each attribute are mapped to where they are in the
+ * source, and so is every child node.
+ *
+ * @param node - The element node to serialize
+ * @param options - Serialization options
+ * @param output - Where to write the HTML
+ * @param writeChild - Writes a child node (default: as `serializeElement` does)
+ */
+export function writeElement(
+  node: ElementNode,
+  options: SerializeOptions,
+  output: HtmlOutput,
+  writeChild: (child: AstroNode) => void = child => writeNode(child, options, output),
+): void {
+  const { name, children } = node
+  const raw = hasRawContent(node)
+  const content = directiveContent(node)
+  const writeChildren = () => {
+    if (content) {
+      output.write(content.text, content.start)
+      return
+    }
+    for (const child of children) {
+      if (raw && child.type === 'Text') {
+        output.write(child.value, child.position?.start)
+      } else {
+        writeChild(child)
+      }
+    }
+  }
+
+  // Fragments group their children without adding an element of their own
+  if (getElementKind(node) === 'fragment') {
+    writeChildren()
+    return
   }
 
-  const childrenHtml = children.map(child => serializeNode(child)).join('')
+  // An element given its content by set:html or set:text can't be self-closing
+  const selfClosing = node.selfClosing && !content
+
+  // The start tag is written in pieces so that each attribute is mapped to
+  // its own position; the separator after a piece is written with it
+  const pieces: Piece[] = [{ text: `<${name}`, start: node.position?.start }]
+  for (const attribute of serializeStartTagAttributes(node)) {
+    pieces[pieces.length - 1].text += ' '
+    pieces.push(attribute)
+  }
+  pieces[pieces.length - 1].text += selfClosing ? ' />' : '>'
+  for (const piece of pieces) {
+    output.write(piece.text, piece.start)
+  }
+
+  if (selfClosing) {
+    return
+  }
 
-  return `<${name}${attrString}>${childrenHtml}</${name}>`
+  writeChildren()
+  output.write(`</${name}>`)
 }
 
 /**
- * Serializes any AST node to HTML
+ * Writes any AST node as HTML
  *
  * This is a dispatcher function that routes different node types
  * to their appropriate serialization functions.
  *
  * @param node - The AST node to serialize
- * @returns HTML string representation of the node
+ * @param options - Serialization options
+ * @param output - Where to write the HTML
  */
-function serializeNode(node: AstroNode): string {
+function writeNode(node: AstroNode, options: SerializeOptions, output: HtmlOutput): void {
+  const start = node.position?.start
   switch (node.type) {
     case 'Text':
-      return serializeText(node)
+      output.write(serializeText(node), start)
+      return
     case 'Element':
-      return serializeElement(node)
+      writeElement(node, options, output)
+      return
+    case 'Comment':
+      output.write(serializeComment(node, options), start)
+      return
+    case 'Doctype':
+      output.write(serializeDoctype(node), start)
+      return
+    case 'ProcessingInstruction':
+      output.write(serializeProcessingInstruction(node), start)
+      return
     case 'Expression':
-      // Expressions in the template are rendered as-is
-      return `{${node.value}}`
+      // Expressions in the template are rendered as-is, with any markup inside them serialized
+      if (node.children) {
+        output.write('{', start)
+        for (const child of node.children) writeNode(child, options, output)
+        output.write('}')
+        return
+      }
+      output.write(`{${node.value}}`, start)
+      return
     case 'Template':
       // Template nodes are containers, serialize their children
-      return node.children.map(child => serializeNode(child)).join('')
+      for (const child of node.children) writeNode(child, options, output)
+      return
     default:
       // Skip nodes that shouldn't be serialized to HTML
       // (e.g., Frontmatter, Program)
-      return ''
+      return
   }
 }
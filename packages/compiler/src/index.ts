@@ -1,14 +1,79 @@
-export { parse } from './parser/index.js'
-export { tokenize } from './tokenizer/index.js'
-export { escapeHtml, serializeText, serializeElement, buildHTML } from './html-builder/index.js'
+export {
+  analyzeSlots,
+  getElementKind,
+  parse,
+  querySelector,
+  querySelectorAll,
+  transform,
+  walk,
+  walkAsync,
+} from './parser/index.js'
+export type {
+  TransformContext,
+  TransformVisitor,
+  WalkHandler,
+  AsyncWalkHandler,
+  Visitor,
+  VisitorContext,
+  VisitorHandler,
+  VisitorParent,
+  AsyncVisitor,
+  AsyncVisitorHandler,
+} from './parser/index.js'
+export { tokenize, tokenizeIterator } from './tokenizer/index.js'
+export {
+  escapeHtml,
+  serializeText,
+  serializeElement,
+  serializeComment,
+  serializeDoctype,
+  serializeProcessingInstruction,
+  buildHTML,
+} from './html-builder/index.js'
+export type { BuildOptions, BuildResult, SerializeOptions } from './html-builder/index.js'
+export { createMappedOutput } from './sourcemap/index.js'
+export type { MappedOutput, SourceMap, SourceMapOptions } from './sourcemap/index.js'
+export { print } from './printer/index.js'
+export type { PrintOptions } from './printer/index.js'
+export { CompilerError, codeFrame, formatDiagnostic } from './diagnostics/index.js'
+export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticHandler,
+  DiagnosticSeverity,
+} from './diagnostics/index.js'
 
 export type {
   AstroAST,
   AstroNode,
   FrontmatterNode,
+  FrontmatterAnalysis,
+  FrontmatterImport,
+  FrontmatterImportSpecifier,
+  PropsDeclaration,
+  PropsProperty,
+  SlotAnalysis,
+  SlotDefinition,
+  SlotAssignment,
   ElementNode,
+  ElementKind,
   TextNode,
   ExpressionNode,
+  CommentNode,
+  DoctypeNode,
+  ProcessingInstructionNode,
+  Attribute,
+  ShorthandAttribute,
+  SpreadAttribute,
+  ElementAttribute,
+  Directive,
+  DirectiveNode,
+  DirectiveNames,
+  DirectiveNamespace,
+  AttributeKind,
+  Point,
+  SourceSpan,
+  ParseOptions,
 } from './parser/index.js'
 
-export type { Token, TokenType } from './tokenizer/index.js'
+export type { Token, TokenType, TokenizeOptions } from './tokenizer/index.js'
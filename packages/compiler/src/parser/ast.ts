@@ -7,25 +7,36 @@
  * @module ast
  */
 
+import type { Expression } from 'acorn'
+import type { Diagnostic } from '../diagnostics/diagnostic.js'
+import type { Point, SourceSpan } from '../tokenizer/types.js'
+
+export type { Point, SourceSpan }
+
 /**
  * The root node of an Astro AST
  *
- * Represents the entire parsed .astro file as a program containing
- * multiple top-level nodes (frontmatter, elements, etc.)
+ * Represents the entire parsed .astro file. `parse` always produces the
+ * same shape: the frontmatter, if the file starts with one, followed by a
+ * single template node holding the markup.
  *
  * @example
  * ```typescript
  * const ast: AstroAST = {
  *   type: 'Program',
- *   children: [frontmatterNode, elementNode]
+ *   children: [frontmatterNode, templateNode]
  * }
  * ```
  */
 export interface AstroAST {
   /** Node type identifier */
   type: 'Program'
-  /** Array of top-level child nodes */
+  /** `[FrontmatterNode, TemplateNode]`, or just `[TemplateNode]` without frontmatter */
   children: AstroNode[]
+  /** Location of the node in the source file */
+  position?: SourceSpan
+  /** Problems found while parsing; set when parsing with `recover: true` */
+  diagnostics?: Diagnostic[]
 }
 
 /**
@@ -41,6 +52,9 @@ export type AstroNode =
   | ElementNode
   | TextNode
   | ExpressionNode
+  | CommentNode
+  | DoctypeNode
+  | ProcessingInstructionNode
 
 /**
  * Represents the frontmatter section of an Astro file
@@ -61,6 +75,85 @@ export interface FrontmatterNode {
   type: 'Frontmatter'
   /** The JavaScript/TypeScript code content */
   value: string
+  /** What the code imports, declares and exports; present when parsing with `analyzeFrontmatter: true` */
+  analysis?: FrontmatterAnalysis
+  /** Location of the node in the source file, including both --- markers */
+  position?: SourceSpan
+}
+
+/**
+ * The result of statically analyzing frontmatter code
+ *
+ * @example
+ * ```astro
+ * ---
+ * import Card from '../components/Card.astro'
+ * export const prerender = true
+ * interface Props { title: string }
+ * const { title } = Astro.props
+ * ---
+ * ```
+ * gives one import of `Card`, the binding `title`, the export `prerender`
+ * and a Props declaration with a `title: string` property.
+ */
+export interface FrontmatterAnalysis {
+  /** Import declarations, in source order */
+  imports: FrontmatterImport[]
+  /** Names declared at the top level by const/let/var, function, class and enum declarations */
+  bindings: string[]
+  /** Names the frontmatter exports, such as `getStaticPaths` and `prerender` */
+  exports: string[]
+  /** The `Props` interface or type alias, if one is declared */
+  props?: PropsDeclaration
+}
+
+/**
+ * An import declaration in frontmatter
+ */
+export interface FrontmatterImport {
+  /** The module specifier, e.g. `'../components/Card.astro'` */
+  source: string
+  specifiers: FrontmatterImportSpecifier[]
+  /** Whether the whole declaration is `import type` */
+  typeOnly: boolean
+  /** Location of the declaration in the source file */
+  position?: SourceSpan
+}
+
+/**
+ * One name brought in by an import declaration
+ */
+export interface FrontmatterImportSpecifier {
+  /** `import a from`, `import { a } from` or `import * as a from` */
+  kind: 'default' | 'named' | 'namespace'
+  /** The local binding name */
+  local: string
+  /** The name exported by the module, for named imports */
+  imported?: string
+  /** Whether the name is imported only as a type */
+  typeOnly: boolean
+}
+
+/**
+ * The declaration of a component's `Props`
+ */
+export interface PropsDeclaration {
+  /** `interface Props {...}` or `type Props = {...}` */
+  kind: 'interface' | 'type'
+  /** The declared properties (empty when the type isn't an object literal) */
+  properties: PropsProperty[]
+  /** Location of the declaration in the source file */
+  position?: SourceSpan
+}
+
+/**
+ * A property of the `Props` type
+ */
+export interface PropsProperty {
+  name: string
+  /** The property's type, as written */
+  type: string
+  optional: boolean
 }
 
 /**
@@ -68,20 +161,24 @@ export interface FrontmatterNode {
  *
  * The template node contains all content after the frontmatter,
  * including HTML elements, components, and expressions.
- * This is a container node that groups all template content.
+ * This is a container node that groups all template content; `parse`
+ * creates one even for a file without markup.
  */
 export interface TemplateNode {
   /** Node type identifier */
   type: 'Template'
   /** Child nodes within the template */
   children: AstroNode[]
+  /** Location of the node in the source file */
+  position?: SourceSpan
 }
 
 /**
  * Represents an HTML element or Astro component
  *
- * This node type covers both standard HTML elements (div, span, etc.)
- * and Astro components (both .astro components and framework components).
+ * This node type covers standard HTML elements (div, span, etc.),
+ * Astro components (both .astro components and framework components),
+ * custom elements and fragments; `kind` tells them apart.
  *
  * @example
  * ```astro
@@ -93,27 +190,180 @@ export interface TemplateNode {
 export interface ElementNode {
   /** Node type identifier */
   type: 'Element'
-  /** Element or component name (e.g., 'div', 'Button', 'Layout') */
+  /** Element or component name (e.g., 'div', 'Button', 'UI.Button'); empty for the `<>` fragment shorthand */
   name: string
+  /**
+   * What the name refers to: see {@link ElementKind}. Set by the parser;
+   * when absent, as in hand-built trees, {@link getElementKind} derives it from the name.
+   */
+  kind?: ElementKind
   /** Array of element attributes */
-  attributes: Array<{
-    /** Attribute name */
-    name: string
-    /** Attribute value (can be static string or dynamic expression) */
-    value: string | ExpressionNode
-  }>
+  attributes: ElementAttribute[]
+  /** Compiler directives such as `client:load` and `set:html`, taken out of `attributes`; present only when there are some */
+  directives?: Directive[]
   /** Child nodes nested within this element */
   children: AstroNode[]
   /** Whether the element is self-closing (e.g., <img />) */
   selfClosing: boolean
+  /** Location of the node in the source file, from `<` to the end of the closing tag */
+  position?: SourceSpan
 }
 
+/**
+ * What an element's name refers to
+ *
+ * - `element`: a plain HTML element such as `div` or `svg`, in any case
+ *   (`DIV` too, when written all in capitals)
+ * - `component`: an Astro or framework component, named with a capital
+ *   letter (`Layout`) or a member expression (`UI.Button`)
+ * - `custom-element`: a web component, named with a hyphen (`my-widget`)
+ * - `fragment`: `<Fragment>` or its `<>` shorthand, which render only their children
+ */
+export type ElementKind = 'element' | 'component' | 'custom-element' | 'fragment'
+
+/**
+ * Represents a single attribute on an element
+ *
+ * @example
+ * ```astro
+ * <a href="/about" title={title}>
+ * ```
+ */
+export interface Attribute {
+  /** Attribute type identifier (optional for backwards compatibility) */
+  type?: 'Attribute'
+  /** Attribute name */
+  name: string
+  /**
+   * Attribute value (can be static string or dynamic expression).
+   * A template-literal value is an ExpressionNode whose code is the literal, backticks included.
+   */
+  value: string | ExpressionNode
+  /**
+   * How the value was written. A valueless boolean attribute (`disabled`) has
+   * kind `'empty'`, which keeps it distinct from `disabled=""`. When omitted,
+   * the attribute is treated as having an explicit value.
+   */
+  kind?: AttributeKind
+  /** Location of the whole attribute, from the start of the name to the end of the value */
+  position?: SourceSpan
+  /** Location of the attribute name */
+  namePosition?: SourceSpan
+  /** Location of the value as written, including quotes or braces */
+  valuePosition?: SourceSpan
+}
+
+/**
+ * The directives the compiler understands, by namespace
+ */
+export interface DirectiveNames {
+  client: 'load' | 'idle' | 'visible' | 'media' | 'only'
+  server: 'defer'
+  set: 'html' | 'text'
+  class: 'list'
+  is: 'raw' | 'inline' | 'global'
+  define: 'vars'
+}
+
+/**
+ * The part of a directive before the colon
+ */
+export type DirectiveNamespace = keyof DirectiveNames
+
+/**
+ * A compiler directive written as an attribute, such as `client:visible`
+ *
+ * @example
+ * ```astro
+ * <Counter client:media="(max-width: 600px)" />
+ * <!-- namespace 'client', name 'media', value '(max-width: 600px)' -->
+ * ```
+ */
+export interface DirectiveNode<N extends DirectiveNamespace = DirectiveNamespace> {
+  type: 'Directive'
+  namespace: N
+  /** The part after the colon */
+  name: DirectiveNames[N]
+  /** The value as for an attribute: a string, or an expression such as `{html}` */
+  value: string | ExpressionNode
+  /** How the value was written; `'empty'` for a bare directive such as `client:load` */
+  kind: AttributeKind
+  /** Location of the whole directive, from the start of the name to the end of the value */
+  position?: SourceSpan
+  /** Location of the directive name, namespace included */
+  namePosition?: SourceSpan
+  /** Location of the value as written, including quotes or braces */
+  valuePosition?: SourceSpan
+}
+
+/**
+ * Any directive, narrowed by checking `namespace`
+ */
+export type Directive = { [N in DirectiveNamespace]: DirectiveNode<N> }[DirectiveNamespace]
+
+/**
+ * Represents a shorthand attribute, where the expression also names the attribute
+ *
+ * @example
+ * ```astro
+ * <Card {title} />  <!-- same as title={title} -->
+ * ```
+ */
+export interface ShorthandAttribute {
+  /** Attribute type identifier */
+  type: 'ShorthandAttribute'
+  /** Attribute name (the identifier inside the braces) */
+  name: string
+  /** The expression providing the value */
+  value: ExpressionNode
+  /** Location of the attribute in the source file, including the braces */
+  position?: SourceSpan
+}
+
+/**
+ * Represents a spread attribute, which passes every property of an object as attributes
+ *
+ * @example
+ * ```astro
+ * <Card {...props} />
+ * ```
+ */
+export interface SpreadAttribute {
+  /** Attribute type identifier */
+  type: 'SpreadAttribute'
+  /** The spread argument (`props` in `{...props}`) */
+  value: ExpressionNode
+  /** Location of the attribute in the source file, including the braces */
+  position?: SourceSpan
+}
+
+/**
+ * Any attribute that can appear on an element
+ */
+export type ElementAttribute = Attribute | ShorthandAttribute | SpreadAttribute
+
+/**
+ * How an attribute value was written in the source
+ *
+ * - `quoted`: `name="value"` or `name='value'`
+ * - `unquoted`: `name=value`
+ * - `empty`: a bare `name` with no value (a boolean attribute)
+ * - `expression`: `name={value}`
+ * - `template-literal`: ``name=`/posts/${slug}` ``
+ */
+export type AttributeKind = 'quoted' | 'unquoted' | 'empty' | 'expression' | 'template-literal'
+
 /**
  * Represents plain text content
  *
  * Text nodes contain literal text that appears between elements
  * or within elements. Whitespace is preserved.
  *
+ * The content of raw text elements (`<script>`, `<style>` and anything
+ * marked `is:raw`) is never parsed as markup and is flagged with `raw` so it
+ * is emitted without escaping. `<title>` and `<textarea>` content isn't
+ * parsed as markup either, but is ordinary text that is escaped.
+ *
  * @example
  * ```astro
  * <p>This is a text node</p>
@@ -124,6 +374,10 @@ export interface TextNode {
   type: 'Text'
   /** The text content */
   value: string
+  /** Whether the text is raw element content that must not be escaped */
+  raw?: boolean
+  /** Location of the node in the source file */
+  position?: SourceSpan
 }
 
 /**
@@ -136,13 +390,137 @@ export interface TextNode {
  * ```astro
  * <div>{count * 2}</div>
  * <p>{user.name}</p>
+ * <ul>{items.map(item => <li>{item}</li>)}</ul>
  * ```
  */
 export interface ExpressionNode {
   /** Node type identifier */
   type: 'Expression'
-  /** The JavaScript expression code */
+  /** The JavaScript expression code, including any markup written inside it */
+  value: string
+  /**
+   * Present when the expression contains markup: the code split into raw
+   * Text chunks, interleaved with the parsed elements. For
+   * `items.map(item => <li>{item}</li>)` that is
+   * `[Text('items.map(item => '), Element(li), Text(')')]`.
+   */
+  children?: AstroNode[]
+  /**
+   * The expression parsed into an ESTree node, present only when parsing with
+   * `parseExpressions: true` and the expression contains no markup.
+   * Offsets and locations refer to the whole source file.
+   */
+  ast?: Expression
+  /** Location of the node in the source file, including the braces */
+  position?: SourceSpan
+}
+
+/**
+ * Represents an HTML comment
+ *
+ * Comments are kept in the tree so they can be emitted into the output
+ * (licensing headers, server-side include markers) or stripped on request.
+ * Conditional comments are ordinary comments whose text starts with `[if ...]>`.
+ *
+ * @example
+ * ```astro
+ * <!-- Copyright 2024 -->
+ * <!--[if IE]><p>Please upgrade your browser</p><![endif]-->
+ * ```
+ */
+export interface CommentNode {
+  /** Node type identifier */
+  type: 'Comment'
+  /** The text between `<!--` and `-->`, unescaped and untrimmed */
   value: string
+  /** Location of the node in the source file, including the comment delimiters */
+  position?: SourceSpan
+}
+
+/**
+ * Represents a DOCTYPE declaration
+ *
+ * The `DOCTYPE` keyword is matched case-insensitively. The declaration is
+ * written back as it was in the source; a node without `raw` is written
+ * with the keyword in upper case.
+ *
+ * @example
+ * ```astro
+ * <!DOCTYPE html>
+ * ```
+ */
+export interface DoctypeNode {
+  /** Node type identifier */
+  type: 'Doctype'
+  /** The declaration after the `DOCTYPE` keyword (e.g., 'html') */
+  value: string
+  /** The whole declaration as written in the source (e.g., '<!doctype html>'); set by the parser */
+  raw?: string
+  /** Location of the node in the source file */
+  position?: SourceSpan
+}
+
+/**
+ * Represents a processing instruction
+ *
+ * @example
+ * ```astro
+ * <?xml version="1.0" encoding="UTF-8"?>
+ * ```
+ */
+export interface ProcessingInstructionNode {
+  /** Node type identifier */
+  type: 'ProcessingInstruction'
+  /** The text between `<?` and `?>` (e.g., 'xml version="1.0"') */
+  value: string
+  /** Location of the node in the source file */
+  position?: SourceSpan
+}
+
+/**
+ * The slots a component declares and the slots its component calls fill
+ *
+ * @example
+ * ```astro
+ * <header><slot name="header">Untitled</slot></header>
+ * <Card><h2 slot="title">Hi</h2><p>Body</p></Card>
+ * ```
+ * defines the slot `header` with fallback `Untitled`, and assigns the `<h2>`
+ * to Card's `title` slot and the `<p>` to its `default` slot.
+ */
+export interface SlotAnalysis {
+  /** Every `<slot>` element in the template, in source order */
+  definitions: SlotDefinition[]
+  /** Every child of a component call, with the slot it fills, in source order */
+  assignments: SlotAssignment[]
+}
+
+/**
+ * A `<slot>` element: a place where a component renders content passed to it
+ */
+export interface SlotDefinition {
+  /** The slot name: `'default'` without a `name` attribute, or an expression for `name={...}` */
+  name: string | ExpressionNode
+  /** Content rendered when nothing fills the slot */
+  fallback: AstroNode[]
+  /** The `<slot>` element */
+  node: ElementNode
+  /** Location of the `<slot>` element */
+  position?: SourceSpan
+}
+
+/**
+ * A child of a component call and the slot of that component it fills
+ */
+export interface SlotAssignment {
+  /** The component being called */
+  component: ElementNode
+  /** The target slot: from the child's `slot` attribute, `'default'` without one */
+  slot: string | ExpressionNode
+  /** The child node */
+  node: AstroNode
+  /** Location of the child */
+  position?: SourceSpan
 }
 
 /**
@@ -186,3 +564,170 @@ export function isTextNode(node: AstroNode): node is TextNode {
 export function isExpressionNode(node: AstroNode): node is ExpressionNode {
   return node.type === 'Expression'
 }
+
+/**
+ * Type guard to check if a node is a CommentNode
+ */
+export function isCommentNode(node: AstroNode): node is CommentNode {
+  return node.type === 'Comment'
+}
+
+/**
+ * Type guard to check if a node is a DoctypeNode
+ */
+export function isDoctypeNode(node: AstroNode): node is DoctypeNode {
+  return node.type === 'Doctype'
+}
+
+/**
+ * Type guard to check if a node is a ProcessingInstructionNode
+ */
+export function isProcessingInstructionNode(node: AstroNode): node is ProcessingInstructionNode {
+  return node.type === 'ProcessingInstruction'
+}
+
+/**
+ * Names of the standard HTML elements, used to recognize them when written in capitals
+ */
+const HTML_ELEMENT_NAMES = new Set([
+  'a',
+  'abbr',
+  'address',
+  'area',
+  'article',
+  'aside',
+  'audio',
+  'b',
+  'base',
+  'bdi',
+  'bdo',
+  'blockquote',
+  'body',
+  'br',
+  'button',
+  'canvas',
+  'caption',
+  'cite',
+  'code',
+  'col',
+  'colgroup',
+  'data',
+  'datalist',
+  'dd',
+  'del',
+  'details',
+  'dfn',
+  'dialog',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'embed',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'head',
+  'header',
+  'hgroup',
+  'hr',
+  'html',
+  'i',
+  'iframe',
+  'img',
+  'input',
+  'ins',
+  'kbd',
+  'label',
+  'legend',
+  'li',
+  'link',
+  'main',
+  'map',
+  'mark',
+  'math',
+  'menu',
+  'meta',
+  'meter',
+  'nav',
+  'noscript',
+  'object',
+  'ol',
+  'optgroup',
+  'option',
+  'output',
+  'p',
+  'param',
+  'picture',
+  'pre',
+  'progress',
+  'q',
+  'rp',
+  'rt',
+  'ruby',
+  's',
+  'samp',
+  'script',
+  'search',
+  'section',
+  'select',
+  'slot',
+  'small',
+  'source',
+  'span',
+  'strong',
+  'style',
+  'sub',
+  'summary',
+  'sup',
+  'svg',
+  'table',
+  'tbody',
+  'td',
+  'template',
+  'textarea',
+  'tfoot',
+  'th',
+  'thead',
+  'time',
+  'title',
+  'tr',
+  'track',
+  'u',
+  'ul',
+  'var',
+  'video',
+  'wbr',
+])
+
+/**
+ * What an element's name refers to: its `kind`, or if that isn't set, the
+ * kind its name implies
+ *
+ * @param element - The element, or just its name and kind
+ * @returns The element kind
+ *
+ * @example
+ * ```typescript
+ * getElementKind({ name: 'UI.Button' }) // 'component'
+ * getElementKind({ name: 'my-widget' }) // 'custom-element'
+ * getElementKind({ name: 'BR' }) // 'element'
+ * ```
+ */
+export function getElementKind(element: Pick<ElementNode, 'name' | 'kind'>): ElementKind {
+  if (element.kind) return element.kind
+  const { name } = element
+  if (name === '' || name === 'Fragment') return 'fragment'
+  // HTML names are case-insensitive, so an all-capitals `<BR>` is still the HTML element
+  if (/^[A-Z][A-Z0-9]*$/.test(name) && HTML_ELEMENT_NAMES.has(name.toLowerCase())) return 'element'
+  if (/^[A-Z]/.test(name) || name.includes('.')) return 'component'
+  if (name.includes('-')) return 'custom-element'
+  return 'element'
+}
@@ -0,0 +1,219 @@
+/**
+ * Directive extraction and validation
+ *
+ * Attributes named `namespace:name` with a directive namespace (`client`,
+ * `server`, `set`, `class`, `is`, `define`) are compiler directives rather
+ * than HTML attributes. This module moves them from an element's attributes
+ * into typed directive objects and reports directives that are unknown or
+ * used where they have no effect.
+ *
+ * @module directives
+ */
+
+import { createDiagnostic } from '../diagnostics/diagnostic.js'
+import type { DiagnosticHandler } from '../diagnostics/diagnostic.js'
+import type {
+  Attribute,
+  Directive,
+  DirectiveNames,
+  DirectiveNamespace,
+  ElementAttribute,
+  ElementKind,
+} from './ast.js'
+
+/**
+ * Where a directive may be used
+ */
+interface DirectiveRule {
+  /** The directive does nothing without a value */
+  requiresValue?: boolean
+  /** Only these elements accept the directive */
+  elements?: Set<string>
+  /** Only elements of this kind accept the directive */
+  kind?: ElementKind
+}
+
+/**
+ * Every known directive and its rule
+ */
+const DIRECTIVE_RULES: { [N in DirectiveNamespace]: Record<DirectiveNames[N], DirectiveRule> } = {
+  client: {
+    load: { kind: 'component' },
+    idle: { kind: 'component' },
+    visible: { kind: 'component' },
+    media: { kind: 'component', requiresValue: true },
+    only: { kind: 'component' },
+  },
+  server: {
+    defer: { kind: 'component' },
+  },
+  set: {
+    html: { requiresValue: true },
+    text: { requiresValue: true },
+  },
+  class: {
+    list: { requiresValue: true },
+  },
+  is: {
+    raw: {},
+    inline: { elements: new Set(['script', 'style']) },
+    global: { elements: new Set(['style']) },
+  },
+  define: {
+    vars: { requiresValue: true, elements: new Set(['script', 'style']) },
+  },
+}
+
+/**
+ * What each element kind is called in messages
+ */
+const KIND_DESCRIPTIONS: Record<ElementKind, string> = {
+  element: 'an HTML element',
+  component: 'a component',
+  'custom-element': 'a custom element',
+  fragment: 'a fragment',
+}
+
+/**
+ * The element a set of attributes belongs to
+ */
+interface DirectiveTarget {
+  name: string
+  kind: ElementKind
+}
+
+/**
+ * Split an element's attributes into plain attributes and directives
+ *
+ * Attributes in a directive namespace with an unknown name are reported and
+ * kept as plain attributes; attributes in other namespaces (`xlink:href`)
+ * are left alone.
+ *
+ * @param element - The element the attributes are written on
+ * @param attributes - The element's attributes, in source order
+ * @param source - The source text, used for diagnostic code frames
+ * @param report - Receives the diagnostics found
+ * @returns The remaining attributes and the directives, both in source order
+ *
+ * @example
+ * ```typescript
+ * const { directives } = splitDirectives({ name: 'Counter', kind: 'component' }, attributes, source, report)
+ * directives[0] // { type: 'Directive', namespace: 'client', name: 'load', ... }
+ * ```
+ */
+export function splitDirectives(
+  element: DirectiveTarget,
+  attributes: ElementAttribute[],
+  source: string,
+  report: DiagnosticHandler,
+): { attributes: ElementAttribute[]; directives: Directive[] } {
+  const remaining: ElementAttribute[] = []
+  const directives: Directive[] = []
+
+  for (const attribute of attributes) {
+    if (attribute.type === 'ShorthandAttribute' || attribute.type === 'SpreadAttribute') {
+      remaining.push(attribute)
+      continue
+    }
+
+    const separator = attribute.name.indexOf(':')
+    const namespace = attribute.name.slice(0, separator)
+    if (separator === -1 || !isDirectiveNamespace(namespace)) {
+      remaining.push(attribute)
+      continue
+    }
+
+    const name = attribute.name.slice(separator + 1)
+    const rules: Record<string, DirectiveRule> = DIRECTIVE_RULES[namespace]
+    const rule = Object.hasOwn(rules, name) ? rules[name] : undefined
+    if (!rule) {
+      report(
+        createDiagnostic(source, {
+          code: 'unknown-directive',
+          severity: 'warning',
+          message: `Unknown directive ${attribute.name}`,
+          span: attribute.position,
+          hint: `Known ${namespace}: directives are ${Object.keys(rules)
+            .map(known => `${namespace}:${known}`)
+            .join(', ')}`,
+        }),
+      )
+      remaining.push(attribute)
+      continue
+    }
+
+    const problem = validateDirective(attribute, rule, element)
+    if (problem) {
+      report(
+        createDiagnostic(source, {
+          code: 'invalid-directive',
+          severity: 'warning',
+          message: problem.message,
+          span: attribute.position,
+          hint: problem.hint,
+        }),
+      )
+    }
+
+    directives.push(toDirective(attribute, namespace, name))
+  }
+
+  return { attributes: remaining, directives }
+}
+
+function isDirectiveNamespace(namespace: string): namespace is DirectiveNamespace {
+  return Object.hasOwn(DIRECTIVE_RULES, namespace)
+}
+
+/**
+ * Check a known directive against its rule
+ *
+ * @returns The problem found, or undefined if the directive is used correctly
+ */
+function validateDirective(
+  attribute: Attribute,
+  rule: DirectiveRule,
+  element: DirectiveTarget,
+): { message: string; hint: string } | undefined {
+  const tag = `<${element.name}>`
+
+  if (rule.kind && element.kind !== rule.kind) {
+    return {
+      message: `${attribute.name} only works on ${KIND_DESCRIPTIONS[rule.kind]}, but ${tag} is ${KIND_DESCRIPTIONS[element.kind]}`,
+      hint: 'Remove the directive, or move it to the component it was meant for',
+    }
+  }
+  if (rule.elements && !rule.elements.has(element.name.toLowerCase())) {
+    const allowed = [...rule.elements].map(name => `<${name}>`).join(' and ')
+    return {
+      message: `${attribute.name} only works on ${allowed}, not ${tag}`,
+      hint: 'Remove the directive',
+    }
+  }
+  if (rule.requiresValue && attribute.kind === 'empty') {
+    return {
+      message: `${attribute.name} needs a value`,
+      hint: `Write it as ${attribute.name}={...}`,
+    }
+  }
+  return undefined
+}
+
+/**
+ * Turn a directive attribute into a directive
+ *
+ * The caller has checked that `name` is one of the namespace's directives.
+ */
+function toDirective(attribute: Attribute, namespace: DirectiveNamespace, name: string): Directive {
+  const directive = {
+    type: 'Directive',
+    namespace,
+    name,
+    value: attribute.value,
+    kind: attribute.kind ?? 'quoted',
+  } as Directive
+  if (attribute.position) directive.position = attribute.position
+  if (attribute.namePosition) directive.namePosition = attribute.namePosition
+  if (attribute.valuePosition) directive.valuePosition = attribute.valuePosition
+  return directive
+}
@@ -0,0 +1,1116 @@
+/**
+ * Frontmatter static analysis
+ *
+ * Frontmatter is usually TypeScript, which acorn can't parse. The code is
+ * first split into tokens with acorn's tokenizer and the TypeScript-only
+ * syntax is blanked out (overwritten with spaces, so offsets and line
+ * numbers don't move). The remaining JavaScript is parsed with acorn and
+ * its top-level statements are read.
+ *
+ * The TypeScript handled is what frontmatter typically contains:
+ * `import type` and inline `type` specifiers, `export type`, interface and
+ * type alias declarations, annotations on variables, parameters (`this`
+ * included) and return types of functions and methods, generic parameters
+ * and call arguments, `as`/`satisfies` and non-null assertions, enums,
+ * `declare` statements, and class member modifiers, fields and signatures.
+ *
+ * Statements that still can't be parsed are left out, so that one of them
+ * doesn't cost the analysis of the rest.
+ *
+ * @module frontmatter
+ */
+
+import {
+  type AnyNode,
+  type Declaration,
+  type Pattern,
+  type Program,
+  type Token,
+  getLineInfo,
+  parse as parseJs,
+  tokenizer,
+} from 'acorn'
+import type { Point, SourceSpan } from '../tokenizer/types.js'
+import type {
+  FrontmatterAnalysis,
+  FrontmatterImport,
+  FrontmatterImportSpecifier,
+  PropsDeclaration,
+  PropsProperty,
+} from './ast.js'
+
+/**
+ * An acorn token; the typings leave out the value acorn sets on it
+ */
+type JsToken = Token & { value?: unknown }
+
+/**
+ * Token labels that open and close a bracketed group
+ */
+const OPENING_LABELS = new Set(['(', '[', '{', '${'])
+const CLOSING_LABELS = new Set([')', ']', '}'])
+
+/**
+ * Token labels that can end an expression, so a following `as` or `!` is TypeScript
+ */
+const EXPRESSION_END_LABELS = new Set([
+  'name',
+  ')',
+  ']',
+  '}',
+  'string',
+  'num',
+  '`',
+  'true',
+  'false',
+  'null',
+  'this',
+  'regexp',
+])
+
+/**
+ * Type operators that prefix another type (`keyof T`, `readonly string[]`)
+ */
+const TYPE_OPERATORS = new Set(['keyof', 'readonly', 'unique', 'infer'])
+
+/**
+ * Token labels of the statements whose `(...)` is followed by a block, unlike a method's parameters
+ */
+const CONTROL_LABELS = new Set(['if', 'for', 'while', 'switch', 'with'])
+
+/**
+ * Modifiers of class members and constructor parameters that only TypeScript has
+ */
+const MEMBER_MODIFIERS = new Set([
+  'public',
+  'private',
+  'protected',
+  'readonly',
+  'override',
+  'abstract',
+  'declare',
+])
+
+/**
+ * Modifiers of class members that JavaScript has too
+ */
+const JS_MEMBER_MODIFIERS = new Set(['static', 'async', 'get', 'set', 'accessor'])
+
+/**
+ * Options for both tokenizing and parsing frontmatter code with acorn
+ */
+const ACORN_OPTIONS = {
+  ecmaVersion: 'latest',
+  sourceType: 'module',
+  allowAwaitOutsideFunction: true,
+  allowReturnOutsideFunction: true,
+} as const
+
+/**
+ * Frontmatter code with its TypeScript blanked out, and what was learnt doing so
+ */
+interface StrippedCode {
+  code: string
+  /** Offsets of `import type` declarations */
+  typeOnlyImports: Set<number>
+  /** Offsets of import specifiers written with an inline `type` */
+  typeOnlySpecifiers: Set<number>
+  props?: PropsDeclaration
+  /** Errors from tokens that can't be read; the rest of each one's line is blanked */
+  errors: SyntaxError[]
+  /** Enums, which are blanked out but still declare a binding */
+  enums: EnumDeclaration[]
+  /** Offsets where a top-level statement may start: the first token of each top-level line */
+  statementStarts: number[]
+}
+
+/**
+ * A top-level enum declaration
+ */
+interface EnumDeclaration {
+  name: string
+  /** Offset of the declaration */
+  offset: number
+  exported: boolean
+}
+
+/**
+ * The end of a type found while scanning tokens
+ */
+interface TypeEnd {
+  /** Index of the first token after the type */
+  next: number
+  /** Offset just after the type (may fall inside a token such as `>=`) */
+  end: number
+}
+
+/**
+ * Analyze the frontmatter code between `start` and `end`
+ *
+ * @param source - The full source file
+ * @param start - Offset of the first character of the frontmatter code
+ * @param end - Offset just after the frontmatter code
+ * @param onSyntaxError - Called for each statement that can't be parsed; the
+ *   statement is then left out and the rest analyzed. Without it, the first
+ *   error is thrown.
+ * @returns The imports, bindings, exports and Props declaration
+ * @throws SyntaxError if the code can't be parsed and there is no `onSyntaxError`;
+ *   `pos` is an offset into the source
+ *
+ * @example
+ * ```typescript
+ * const source = "---\nimport Card from './Card.astro'\n---"
+ * analyzeFrontmatter(source, 4, 35).imports[0].source // './Card.astro'
+ * ```
+ */
+export function analyzeFrontmatter(
+  source: string,
+  start: number,
+  end: number,
+  onSyntaxError?: (error: SyntaxError) => void,
+): FrontmatterAnalysis {
+  // Everything before the frontmatter becomes whitespace so offsets and lines match the file
+  const code = source.slice(0, start).replace(/[^\n]/g, ' ') + source.slice(start, end)
+  const stripped = stripTypeScript(code)
+
+  // The lines of bad tokens are already blanked; what's left of their statements fails below
+  for (const error of stripped.errors) {
+    if (!onSyntaxError) throw error
+    onSyntaxError(error)
+  }
+  let js = stripped.code
+  while (true) {
+    try {
+      const program = parseJs(js, { ...ACORN_OPTIONS, locations: true })
+      return readProgram(program, stripped)
+    } catch (error) {
+      if (!(error instanceof SyntaxError) || !onSyntaxError) throw error
+      onSyntaxError(error)
+      const blanked = blankStatementAt(js, (error as SyntaxError & { pos: number }).pos, stripped)
+      // Blank code always parses, so no progress means there's nothing left to leave out
+      if (blanked === js) throw error
+      js = blanked
+    }
+  }
+}
+
+/**
+ * Blank the top-level statement around `offset`, from the statement start
+ * before it up to the next one
+ */
+function blankStatementAt(code: string, offset: number, stripped: StrippedCode): string {
+  const starts = stripped.statementStarts
+  const from = starts.filter(start => start <= offset).pop() ?? 0
+  const to = starts.find(start => start > offset) ?? code.length
+  const blanked =
+    code.slice(0, from) + code.slice(from, to).replace(/[^\n\r]/g, ' ') + code.slice(to)
+  // An error in code already blanked can't be pinned to a statement; give up on all of it
+  return blanked === code ? code.replace(/[^\n\r]/g, ' ') : blanked
+}
+
+/**
+ * Blank out the TypeScript-only syntax in `code`
+ *
+ * @param code - TypeScript or JavaScript source
+ * @returns The code as plain JavaScript, with the same length and line breaks
+ */
+function stripTypeScript(code: string): StrippedCode {
+  const chars = code.split('')
+  const tokens: JsToken[] = []
+  const errors: SyntaxError[] = []
+  while (true) {
+    const text = chars.join('')
+    try {
+      tokens.length = 0
+      for (const token of tokenizer(text, ACORN_OPTIONS)) tokens.push(token)
+      break
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error
+      errors.push(error)
+      // Leave out the whole line the bad token is on and read on. acorn's `pos` can
+      // fall inside the token (just after a regex's `/`), so its start isn't known.
+      const { pos } = error as SyntaxError & { pos: number }
+      const lineEnd = text.indexOf('\n', pos)
+      blank(text.lastIndexOf('\n', pos - 1) + 1, lineEnd === -1 ? text.length : lineEnd)
+      if (chars.join('') === text) {
+        // Blanking made no progress; give up on the code instead of failing again
+        blank(0, chars.length)
+        tokens.length = 0
+        break
+      }
+    }
+  }
+  const typeOnlyImports = new Set<number>()
+  const typeOnlySpecifiers = new Set<number>()
+  const enums: EnumDeclaration[] = []
+  const statementStarts: number[] = []
+  let props: PropsDeclaration | undefined
+
+  // Index of the token closing each bracket (and opening each closing one)
+  const partner = new Array<number>(tokens.length).fill(-1)
+  const openStack: number[] = []
+  let inTemplate = false
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1]
+    if (
+      !openStack.length &&
+      !inTemplate &&
+      (!previous ||
+        previous.type.label === ';' ||
+        code.slice(previous.end, token.start).includes('\n'))
+    ) {
+      statementStarts.push(token.start)
+    }
+
+    if (token.type.label === '`') {
+      inTemplate = !inTemplate
+    } else if (OPENING_LABELS.has(token.type.label)) {
+      openStack.push(index)
+    } else if (CLOSING_LABELS.has(token.type.label)) {
+      const open = openStack.pop()
+      if (open !== undefined) {
+        partner[open] = index
+        partner[index] = open
+      }
+    }
+  })
+
+  function label(index: number): string {
+    return tokens[index]?.type.label ?? 'eof'
+  }
+
+  function isName(index: number, name?: string): boolean {
+    return label(index) === 'name' && (name === undefined || tokens[index].value === name)
+  }
+
+  /**
+   * Whether the token is `<` (acorn reads type argument brackets as operators)
+   */
+  function isLessThan(index: number): boolean {
+    return label(index) === '</>/<=/>=' && tokens[index].value === '<'
+  }
+
+  function closingPartner(index: number): number {
+    const close = partner[index]
+    return close === -1 ? tokens.length - 1 : close
+  }
+
+  function lineBreakBetween(first: number, second: number): boolean {
+    return code.slice(tokens[first].end, tokens[second].start).includes('\n')
+  }
+
+  /**
+   * Whether the token is a TypeScript-only member modifier applied to what follows it
+   */
+  function isModifier(index: number): boolean {
+    return (
+      isName(index) &&
+      MEMBER_MODIFIERS.has(String(tokens[index].value)) &&
+      isMemberKey(index + 1) &&
+      !lineBreakBetween(index, index + 1)
+    )
+  }
+
+  /**
+   * Whether the token can start a class member's name (or a parameter's)
+   */
+  function isMemberKey(index: number): boolean {
+    const tokenLabel = label(index)
+    return (
+      ['name', 'string', 'num', 'privateId', '[', '*'].includes(tokenLabel) ||
+      tokens[index]?.type.keyword !== undefined
+    )
+  }
+
+  function blank(from: number, to: number): void {
+    for (let offset = from; offset < to; offset++) {
+      if (chars[offset] !== '\n' && chars[offset] !== '\r') {
+        chars[offset] = ' '
+      }
+    }
+  }
+
+  function blankTokens(first: number, endOffset: number): void {
+    blank(tokens[first].start, endOffset)
+  }
+
+  /**
+   * Skip type arguments or parameters starting at a `<`
+   */
+  function skipTypeArguments(index: number): TypeEnd {
+    let depth = 0
+    for (let k = index; k < tokens.length; k++) {
+      const value = tokens[k].value
+      if (typeof value === 'string' && /^[<>]+=*$/.test(value) && label(k) !== 'string') {
+        for (let c = 0; c < value.length; c++) {
+          if (value[c] === '<') depth++
+          else if (value[c] === '>' && --depth === 0) {
+            const glued = c < value.length - 1
+            return { next: glued ? k : k + 1, end: tokens[k].start + c + 1 }
+          }
+        }
+      } else if (OPENING_LABELS.has(label(k))) {
+        k = closingPartner(k)
+      }
+    }
+    return { next: tokens.length, end: code.length }
+  }
+
+  function skipTypePrimary(index: number): TypeEnd {
+    const token = tokens[index]
+    if (!token) return { next: index, end: code.length }
+    const tokenLabel = label(index)
+
+    if (
+      tokenLabel === 'name' &&
+      TYPE_OPERATORS.has(String(token.value)) &&
+      label(index + 1) !== ','
+    ) {
+      return skipTypePrimary(index + 1)
+    }
+    if (tokenLabel === 'typeof' || tokenLabel === 'new') {
+      return skipTypePrimary(index + 1)
+    }
+    if (isLessThan(index)) {
+      // Generic function type: <T>(value: T) => T
+      return skipTypePrimary(skipTypeArguments(index).next)
+    }
+    if (tokenLabel === '(') {
+      const close = closingPartner(index)
+      if (label(close + 1) === '=>') return skipType(close + 2)
+      return { next: close + 1, end: tokens[close].end }
+    }
+    if (tokenLabel === '{' || tokenLabel === '[') {
+      const close = closingPartner(index)
+      return { next: close + 1, end: tokens[close].end }
+    }
+    if (tokenLabel === '`') {
+      let k = index + 1
+      while (k < tokens.length && label(k) !== '`') {
+        k = OPENING_LABELS.has(label(k)) ? closingPartner(k) + 1 : k + 1
+      }
+      return { next: k + 1, end: tokens[k]?.end ?? code.length }
+    }
+    if (tokenLabel === '+/-' && label(index + 1) === 'num') {
+      return { next: index + 2, end: tokens[index + 1].end }
+    }
+    if (['string', 'num', 'true', 'false', 'null', 'this', 'void'].includes(tokenLabel)) {
+      return { next: index + 1, end: token.end }
+    }
+    if (tokenLabel === 'name') {
+      let k = index + 1
+      let end = token.end
+      while (label(k) === '.' && isName(k + 1)) {
+        end = tokens[k + 1].end
+        k += 2
+      }
+      return isLessThan(k) ? skipTypeArguments(k) : { next: k, end }
+    }
+
+    // Not a type
+    return { next: index, end: token.start }
+  }
+
+  /**
+   * Skip a type: a primary type with any array suffixes and unions/intersections
+   */
+  function skipType(index: number): TypeEnd {
+    let start = index
+    if (label(start) === '|' || label(start) === '&') start++
+    let result = skipTypePrimary(start)
+
+    while (true) {
+      const next = result.next
+      if (label(next) === '[' && tokens[next].start === result.end) {
+        const close = closingPartner(next)
+        result = { next: close + 1, end: tokens[close].end }
+      } else if (result.next > start && (label(next) === '|' || label(next) === '&')) {
+        result = skipTypePrimary(next + 1)
+      } else {
+        return result
+      }
+    }
+  }
+
+  /**
+   * Blank an annotation: a `:` and the type after it
+   *
+   * @returns Index of the first token after the type
+   */
+  function stripAnnotation(colon: number): number {
+    const type = skipType(colon + 1)
+    blankTokens(colon, type.end)
+    return Math.max(type.next, colon + 1)
+  }
+
+  /**
+   * Blank the annotations in a parameter list
+   *
+   * @returns Index of the closing `)`
+   */
+  function stripParameters(open: number): number {
+    const close = closingPartner(open)
+    let k = open + 1
+
+    // this: Type, which only types `this` and is not a parameter at all
+    if (label(k) === 'this' && label(k + 1) === ':') {
+      const type = skipType(k + 2)
+      const next = label(type.next) === ',' ? type.next + 1 : type.next
+      blank(tokens[k].start, next < close ? tokens[next].start : type.end)
+      k = next
+    }
+
+    while (k < close) {
+      const tokenLabel = label(k)
+      const atParameterStart = label(k - 1) === '(' || label(k - 1) === ','
+      if (atParameterStart && isModifier(k)) {
+        // constructor(private readonly value: T)
+        while (isModifier(k)) {
+          blankTokens(k, tokens[k].end)
+          k++
+        }
+      } else if (OPENING_LABELS.has(tokenLabel)) {
+        k = closingPartner(k) + 1
+      } else if (tokenLabel === '?' && label(k + 1) === ':') {
+        blankTokens(k, tokens[k].end)
+        k++
+      } else if (tokenLabel === ':') {
+        k = stripAnnotation(k)
+      } else if (tokenLabel === '=') {
+        // Skip the default value
+        k++
+        while (k < close && label(k) !== ',') {
+          k = OPENING_LABELS.has(label(k)) ? closingPartner(k) + 1 : k + 1
+        }
+      } else {
+        k++
+      }
+    }
+    return close
+  }
+
+  /**
+   * Read the members of a `Props` object type between `open` and its `}`
+   */
+  function readProperties(open: number): PropsProperty[] {
+    const properties: PropsProperty[] = []
+    const close = closingPartner(open)
+    let k = open + 1
+
+    while (k < close) {
+      if (isName(k, 'readonly') && label(k + 1) !== ':' && label(k + 1) !== '?') k++
+      const token = tokens[k]
+      const isKey = label(k) === 'name' || label(k) === 'string' || token.type.keyword !== undefined
+
+      if (isKey) {
+        let m = k + 1
+        const optional = label(m) === '?'
+        if (optional) m++
+        if (label(m) === ':') {
+          const type = skipType(m + 1)
+          properties.push({
+            name: String(token.value),
+            type: code.slice(tokens[m].end, type.end).trim(),
+            optional,
+          })
+          k = Math.max(type.next, m + 1)
+        } else {
+          // Method signature: name(...): type
+          if (isLessThan(m)) m = skipTypeArguments(m).next
+          if (label(m) === '(') m = closingPartner(m) + 1
+          k = label(m) === ':' ? skipType(m + 1).next : m + 1
+        }
+      } else if (label(k) === '[' || label(k) === '(') {
+        // Index or call signature
+        let m = closingPartner(k) + 1
+        if (label(m) === '?') m++
+        k = label(m) === ':' ? skipType(m + 1).next : m
+      } else {
+        k++
+      }
+
+      if (label(k) === ';' || label(k) === ',') k++
+    }
+    return properties
+  }
+
+  /**
+   * The object types a type is made of: the type itself, or the members of
+   * an intersection (`HTMLAttributes<'img'> & { alt: string }`)
+   *
+   * @returns Indexes of the `{` of each object type
+   */
+  function objectTypes(start: number, end: number): number[] {
+    const bodies: number[] = []
+    let k = start
+    while (k < end) {
+      const first = k === start || label(k - 1) === '&'
+      if (label(k) === '{' && first) bodies.push(k)
+      if (isLessThan(k)) k = skipTypeArguments(k).next
+      else k = OPENING_LABELS.has(label(k)) ? closingPartner(k) + 1 : k + 1
+    }
+    return bodies
+  }
+
+  function readProps(kind: PropsDeclaration['kind'], bodies: number[], from: number, to: number) {
+    props = {
+      kind,
+      properties: bodies.flatMap(readProperties),
+      position: { start: toPoint(code, from), end: toPoint(code, to) },
+    }
+  }
+
+  /**
+   * Handle an import declaration
+   *
+   * @returns Index of the first token after the module specifier
+   */
+  function stripImport(index: number): number {
+    let k = index + 1
+    const defaultNamedType = isName(k + 1, 'from') && label(k + 2) === 'string'
+    if (isName(k, 'type') && !defaultNamedType && label(k + 1) !== ',') {
+      typeOnlyImports.add(tokens[index].start)
+      blankTokens(k, tokens[k].end)
+      k++
+    }
+
+    while (k < tokens.length && label(k) !== 'string') {
+      const inSpecifierList = label(k - 1) === '{' || label(k - 1) === ','
+      if (inSpecifierList && isName(k, 'type') && isName(k + 1) && !isName(k + 1, 'as')) {
+        typeOnlySpecifiers.add(tokens[k + 1].start)
+        blankTokens(k, tokens[k].end)
+      }
+      k++
+    }
+    return k + 1
+  }
+
+  /**
+   * Blank the annotation and definite assignment `!` of a variable declarator
+   *
+   * @returns Index of the first token after the binding and its annotation
+   */
+  function stripDeclarator(index: number): number {
+    let k = isName(index) ? index + 1 : closingPartner(index) + 1
+    if (label(k) === '!/~' && tokens[k].value === '!') {
+      blankTokens(k, tokens[k].end)
+      k++
+    }
+    return label(k) === ':' ? stripAnnotation(k) : k
+  }
+
+  /**
+   * Blank a `declare` statement: from `declare` to the end of its line, or
+   * of the block of a `declare global`, `declare module` and the like
+   *
+   * @returns Index of the first token after the statement
+   */
+  function stripDeclare(index: number, declare: number): number {
+    let k = declare + 1
+    while (
+      k < tokens.length &&
+      label(k) !== ';' &&
+      !(k > declare + 1 && lineBreakBetween(k - 1, k))
+    ) {
+      if (label(k) === '{') {
+        k = closingPartner(k) + 1
+        break
+      }
+      if (label(k) === ':') k = Math.max(skipType(k + 1).next, k + 1)
+      else k = OPENING_LABELS.has(label(k)) ? closingPartner(k) + 1 : k + 1
+    }
+    if (label(k) === ';') k++
+    blankTokens(index, tokens[k - 1].end)
+    return k
+  }
+
+  /**
+   * Blank the type parameters, `implements` clause and type arguments of
+   * the superclass in a class heading
+   *
+   * @returns Index of the `{` opening the class body
+   */
+  function stripClassHeading(index: number): number {
+    let k = index + 1
+    if (isName(k) && !isName(k, 'implements')) k++
+    if (isLessThan(k)) {
+      const typeParameters = skipTypeArguments(k)
+      blankTokens(k, typeParameters.end)
+      k = typeParameters.next
+    }
+    if (label(k) === 'extends') {
+      k++
+      while (k < tokens.length && label(k) !== '{' && !isName(k, 'implements')) {
+        if (isLessThan(k) && EXPRESSION_END_LABELS.has(label(k - 1))) {
+          const typeArguments = skipTypeArguments(k)
+          blankTokens(k, typeArguments.end)
+          k = typeArguments.next
+        } else {
+          k = OPENING_LABELS.has(label(k)) ? closingPartner(k) + 1 : k + 1
+        }
+      }
+    }
+    if (isName(k, 'implements')) {
+      let type = skipType(k + 1)
+      while (label(type.next) === ',') type = skipType(type.next + 1)
+      blankTokens(k, type.end)
+      k = Math.max(type.next, k + 1)
+    }
+    return k
+  }
+
+  /**
+   * Blank the TypeScript in a class member's heading: modifiers, `?` and
+   * `!` after the name, annotations, index signatures, and method
+   * signatures without a body (overloads and abstract methods)
+   *
+   * @returns Index of the first token after the heading, or undefined if no member starts here
+   */
+  function stripClassMember(index: number): number | undefined {
+    let k = index
+    while (
+      (isModifier(k) || JS_MEMBER_MODIFIERS.has(String(tokens[k]?.value))) &&
+      isMemberKey(k + 1) &&
+      !lineBreakBetween(k, k + 1)
+    ) {
+      if (isModifier(k)) blankTokens(k, tokens[k].end)
+      k++
+    }
+    if (label(k) === '*') k++
+
+    // Index signature: [key: string]: Type
+    if (label(k) === '[' && isName(k + 1) && label(k + 2) === ':') {
+      const close = closingPartner(k)
+      const type =
+        label(close + 1) === ':' ? skipType(close + 2) : { next: close + 1, end: tokens[close].end }
+      blankTokens(index, type.end)
+      return type.next
+    }
+    if (!isMemberKey(k)) return undefined
+    k = label(k) === '[' ? closingPartner(k) + 1 : k + 1
+
+    if (label(k) === '?' || (label(k) === '!/~' && tokens[k].value === '!')) {
+      blankTokens(k, tokens[k].end)
+      k++
+    }
+    if (isLessThan(k)) {
+      const typeParameters = skipTypeArguments(k)
+      blankTokens(k, typeParameters.end)
+      k = typeParameters.next
+    }
+    if (label(k) === ':') return stripAnnotation(k)
+    if (label(k) !== '(') return k
+
+    const close = stripParameters(k)
+    const returnType = label(close + 1) === ':' ? skipType(close + 2) : undefined
+    const next = returnType?.next ?? close + 1
+    if (label(next) === '{') {
+      if (returnType) blankTokens(close + 1, returnType.end)
+      return next
+    }
+    // A signature without a body
+    const end = label(next) === ';' ? next + 1 : next
+    blankTokens(index, tokens[end - 1].end)
+    return end
+  }
+
+  /** Index of each bracket the current token is inside, innermost last */
+  const enclosing: number[] = []
+  /** Indexes of the `{` opening class bodies */
+  const classBodies = new Set<number>()
+  /** Depth of the variable declaration the tokens belong to, if any, so that later declarators can be found */
+  let declarationDepth = -1
+
+  let index = 0
+  while (index < tokens.length) {
+    const depth = enclosing.length
+    const token = tokens[index]
+    const tokenLabel = label(index)
+    const atStatementStart =
+      index === 0 ||
+      [';', '{', '}'].includes(label(index - 1)) ||
+      lineBreakBetween(index - 1, index)
+
+    if (atStatementStart && classBodies.has(enclosing[depth - 1])) {
+      const next = stripClassMember(index)
+      if (next !== undefined) {
+        index = next
+        continue
+      }
+    }
+
+    if (atStatementStart) {
+      const declaration = tokenLabel === 'export' ? index + 1 : index
+
+      // declare const value: Type, declare global { ... }
+      if (
+        isName(declaration, 'declare') &&
+        (isName(declaration + 1) || tokens[declaration + 1]?.type.keyword !== undefined) &&
+        !lineBreakBetween(declaration, declaration + 1)
+      ) {
+        index = stripDeclare(index, declaration)
+        continue
+      }
+
+      // abstract class
+      if (isName(declaration, 'abstract') && label(declaration + 1) === 'class') {
+        blankTokens(declaration, tokens[declaration].end)
+        index = declaration + 1
+        continue
+      }
+
+      // enum Name { ... }, const enum Name { ... }
+      const enumKeyword = label(declaration) === 'const' ? declaration + 1 : declaration
+      if (
+        isName(enumKeyword, 'enum') &&
+        isName(enumKeyword + 1) &&
+        label(enumKeyword + 2) === '{'
+      ) {
+        const close = closingPartner(enumKeyword + 2)
+        if (depth === 0) {
+          enums.push({
+            name: String(tokens[enumKeyword + 1].value),
+            offset: token.start,
+            exported: tokenLabel === 'export',
+          })
+        }
+        blankTokens(index, tokens[close].end)
+        index = close + 1
+        continue
+      }
+
+      // interface Props { ... }
+      if (isName(declaration, 'interface') && isName(declaration + 1)) {
+        let open = declaration + 2
+        while (open < tokens.length && label(open) !== '{') open++
+        const close = closingPartner(open)
+        if (depth === 0 && tokens[declaration + 1].value === 'Props') {
+          readProps('interface', [open], token.start, tokens[close].end)
+        }
+        blankTokens(index, tokens[close].end)
+        index = close + 1
+        continue
+      }
+
+      // type Props = { ... }
+      if (isName(declaration, 'type') && isName(declaration + 1)) {
+        let equals = declaration + 2
+        if (isLessThan(equals)) equals = skipTypeArguments(equals).next
+        if (label(equals) === '=') {
+          const type = skipType(equals + 1)
+          let next = type.next
+          let end = type.end
+          if (label(next) === ';') {
+            end = tokens[next].end
+            next++
+          }
+          if (depth === 0 && tokens[declaration + 1].value === 'Props') {
+            readProps('type', objectTypes(equals + 1, type.next), token.start, type.end)
+          }
+          blankTokens(index, end)
+          index = next
+          continue
+        }
+      }
+
+      // export type { A, B } [from '...']
+      if (tokenLabel === 'export' && isName(index + 1, 'type') && label(index + 2) === '{') {
+        const close = closingPartner(index + 2)
+        let next = close + 1
+        let end = tokens[close].end
+        if (isName(next, 'from')) {
+          end = tokens[next + 1].end
+          next += 2
+        }
+        if (label(next) === ';') {
+          end = tokens[next].end
+          next++
+        }
+        blankTokens(index, end)
+        index = next
+        continue
+      }
+
+      if (tokenLabel === 'import' && label(index + 1) !== '(' && label(index + 1) !== '.') {
+        index = stripImport(index)
+        continue
+      }
+
+      // export { a as b }: the `as` here is a rename, not an assertion
+      if (tokenLabel === 'export' && label(index + 1) === '{') {
+        index = closingPartner(index + 1) + 1
+        continue
+      }
+    }
+
+    // const value: Type = ..., other: Type = ...
+    if (
+      (tokenLabel === 'const' || tokenLabel === 'var' || isName(index, 'let')) &&
+      (isName(index + 1) || label(index + 1) === '{' || label(index + 1) === '[')
+    ) {
+      declarationDepth = depth
+      index = stripDeclarator(index + 1)
+      continue
+    }
+    if (depth < declarationDepth || (tokenLabel === ';' && depth === declarationDepth)) {
+      declarationDepth = -1
+    }
+    if (
+      tokenLabel === ',' &&
+      depth === declarationDepth &&
+      (isName(index + 1) || label(index + 1) === '{' || label(index + 1) === '[')
+    ) {
+      index = stripDeclarator(index + 1)
+      continue
+    }
+
+    // class Name<T> extends Base<T> implements Type { ... }
+    if (tokenLabel === 'class') {
+      index = stripClassHeading(index)
+      if (label(index) === '{') classBodies.add(index)
+      continue
+    }
+
+    // <T,>(value: T) => value
+    if (
+      isLessThan(index) &&
+      (index === 0 || !EXPRESSION_END_LABELS.has(label(index - 1)) || isName(index - 1, 'async'))
+    ) {
+      const typeParameters = skipTypeArguments(index)
+      const open = typeParameters.next
+      if (label(open) === '(') {
+        const close = closingPartner(open)
+        const afterReturnType = label(close + 1) === ':' ? skipType(close + 2).next : close + 1
+        if (label(afterReturnType) === '=>') {
+          blankTokens(index, typeParameters.end)
+          index = open
+          continue
+        }
+      }
+    }
+
+    // function name<T>(param: Type): ReturnType
+    if (tokenLabel === 'function') {
+      let k = index + 1
+      if (label(k) === '*') k++
+      if (isName(k)) k++
+      if (isLessThan(k)) {
+        const typeParameters = skipTypeArguments(k)
+        blankTokens(k, typeParameters.end)
+        k = typeParameters.next
+      }
+      if (label(k) === '(') {
+        const close = stripParameters(k)
+        index = label(close + 1) === ':' ? stripAnnotation(close + 1) : close + 1
+        continue
+      }
+    }
+
+    // (param: Type): ReturnType => ..., and method(param: Type): ReturnType { ... }
+    if (tokenLabel === '(') {
+      const close = closingPartner(index)
+      const returnType = label(close + 1) === ':' ? skipType(close + 2) : undefined
+      const next = returnType?.next ?? close + 1
+      const isMethod =
+        label(next) === '{' &&
+        !lineBreakBetween(next - 1, next) &&
+        !CONTROL_LABELS.has(label(index - 1))
+      if (label(next) === '=>' || isMethod) {
+        stripParameters(index)
+        if (returnType) blankTokens(close + 1, returnType.end)
+        index = next
+        continue
+      }
+    }
+
+    // value as Type, value satisfies Type
+    if (
+      (isName(index, 'as') || isName(index, 'satisfies')) &&
+      index > 0 &&
+      EXPRESSION_END_LABELS.has(label(index - 1))
+    ) {
+      if (label(index + 1) === 'const') {
+        blankTokens(index, tokens[index + 1].end)
+        index += 2
+        continue
+      }
+      const type = skipType(index + 1)
+      blankTokens(index, type.end)
+      index = Math.max(type.next, index + 1)
+      continue
+    }
+
+    // value!.property
+    if (
+      tokenLabel === '!/~' &&
+      token.value === '!' &&
+      index > 0 &&
+      EXPRESSION_END_LABELS.has(label(index - 1)) &&
+      tokens[index - 1].end === token.start
+    ) {
+      blankTokens(index, token.end)
+      index++
+      continue
+    }
+
+    // call<Type>(...)
+    if (isName(index) && isLessThan(index + 1) && token.end === tokens[index + 1].start) {
+      const typeArguments = skipTypeArguments(index + 1)
+      if (label(typeArguments.next) === '(') {
+        blankTokens(index + 1, typeArguments.end)
+        index = typeArguments.next
+        continue
+      }
+    }
+
+    if (OPENING_LABELS.has(tokenLabel)) enclosing.push(index)
+    else if (CLOSING_LABELS.has(tokenLabel)) enclosing.pop()
+    index++
+  }
+
+  return {
+    code: chars.join(''),
+    typeOnlyImports,
+    typeOnlySpecifiers,
+    props,
+    errors,
+    enums,
+    statementStarts,
+  }
+}
+
+/**
+ * Collect the analysis from the parsed frontmatter program
+ */
+function readProgram(program: Program, stripped: StrippedCode): FrontmatterAnalysis {
+  const imports: FrontmatterImport[] = []
+  const bindings: string[] = []
+  const exports: string[] = []
+
+  // Enums were blanked out, so their bindings are put back in source order
+  let nextEnum = 0
+  const addEnumsBefore = (offset: number) => {
+    for (; stripped.enums[nextEnum]?.offset < offset; nextEnum++) {
+      const { name, exported } = stripped.enums[nextEnum]
+      bindings.push(name)
+      if (exported) exports.push(name)
+    }
+  }
+
+  for (const statement of program.body) {
+    addEnumsBefore(statement.start)
+    switch (statement.type) {
+      case 'ImportDeclaration': {
+        const typeOnly = stripped.typeOnlyImports.has(statement.start)
+        imports.push({
+          source: String(statement.source.value),
+          specifiers: statement.specifiers.map((specifier): FrontmatterImportSpecifier => {
+            const specifierTypeOnly = typeOnly || stripped.typeOnlySpecifiers.has(specifier.start)
+            if (specifier.type === 'ImportDefaultSpecifier') {
+              return { kind: 'default', local: specifier.local.name, typeOnly: specifierTypeOnly }
+            }
+            if (specifier.type === 'ImportNamespaceSpecifier') {
+              return { kind: 'namespace', local: specifier.local.name, typeOnly: specifierTypeOnly }
+            }
+            return {
+              kind: 'named',
+              local: specifier.local.name,
+              imported: moduleExportName(specifier.imported),
+              typeOnly: specifierTypeOnly,
+            }
+          }),
+          typeOnly,
+          position: toSpan(statement),
+        })
+        break
+      }
+      case 'VariableDeclaration':
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+        bindings.push(...declaredNames(statement))
+        break
+      case 'ExportNamedDeclaration':
+        if (statement.declaration) {
+          const names = declaredNames(statement.declaration)
+          bindings.push(...names)
+          exports.push(...names)
+        }
+        for (const specifier of statement.specifiers) {
+          exports.push(moduleExportName(specifier.exported))
+        }
+        break
+      case 'ExportDefaultDeclaration':
+        exports.push('default')
+        break
+      case 'ExportAllDeclaration':
+        if (statement.exported) {
+          exports.push(moduleExportName(statement.exported))
+        }
+        break
+    }
+  }
+
+  addEnumsBefore(Number.POSITIVE_INFINITY)
+
+  const analysis: FrontmatterAnalysis = { imports, bindings, exports }
+  if (stripped.props) {
+    analysis.props = stripped.props
+  }
+  return analysis
+}
+
+/**
+ * The names a declaration introduces
+ */
+function declaredNames(declaration: Declaration): string[] {
+  if (declaration.type === 'VariableDeclaration') {
+    return declaration.declarations.flatMap(declarator => patternNames(declarator.id))
+  }
+  return declaration.id ? [declaration.id.name] : []
+}
+
+/**
+ * The identifiers bound by a (possibly destructuring) pattern
+ */
+function patternNames(pattern: Pattern): string[] {
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name]
+    case 'ObjectPattern':
+      return pattern.properties.flatMap(property =>
+        patternNames(property.type === 'RestElement' ? property.argument : property.value),
+      )
+    case 'ArrayPattern':
+      return pattern.elements.flatMap(element => (element ? patternNames(element) : []))
+    case 'RestElement':
+      return patternNames(pattern.argument)
+    case 'AssignmentPattern':
+      return patternNames(pattern.left)
+    default:
+      return []
+  }
+}
+
+/**
+ * The name in an import or export specifier, which may be a string (`export { a as "b-c" }`)
+ */
+function moduleExportName(node: AnyNode): string {
+  if (node.type === 'Identifier') return node.name
+  return node.type === 'Literal' ? String(node.value) : ''
+}
+
+function toPoint(code: string, offset: number): Point {
+  const { line, column } = getLineInfo(code, offset)
+  return { offset, line, column: column + 1 }
+}
+
+/**
+ * Convert an acorn node's location into a source span
+ */
+function toSpan(node: AnyNode): SourceSpan | undefined {
+  if (!node.loc) return undefined
+  return {
+    start: { offset: node.start, line: node.loc.start.line, column: node.loc.start.column + 1 },
+    end: { offset: node.end, line: node.loc.end.line, column: node.loc.end.column + 1 },
+  }
+}
@@ -1,13 +1,39 @@
 export { parse } from './parser.js'
 export { walk, walkAsync, is } from './utils.js'
+export { analyzeSlots } from './slots.js'
+export { transform } from './transform.js'
+export { querySelector, querySelectorAll } from './query.js'
 export type {
   AstroAST,
   AstroNode,
   FrontmatterNode,
+  FrontmatterAnalysis,
+  FrontmatterImport,
+  FrontmatterImportSpecifier,
+  PropsDeclaration,
+  PropsProperty,
+  SlotAnalysis,
+  SlotDefinition,
+  SlotAssignment,
   TemplateNode,
   ElementNode,
+  ElementKind,
   TextNode,
   ExpressionNode,
+  CommentNode,
+  DoctypeNode,
+  ProcessingInstructionNode,
+  Attribute,
+  ShorthandAttribute,
+  SpreadAttribute,
+  ElementAttribute,
+  Directive,
+  DirectiveNode,
+  DirectiveNames,
+  DirectiveNamespace,
+  AttributeKind,
+  Point,
+  SourceSpan,
 } from './ast.js'
 export {
   isAstroAST,
@@ -16,5 +42,20 @@ export {
   isElementNode,
   isTextNode,
   isExpressionNode,
+  isCommentNode,
+  isDoctypeNode,
+  isProcessingInstructionNode,
+  getElementKind,
 } from './ast.js'
-export type { WalkHandler, AsyncWalkHandler } from './utils.js'
+export type { ParseOptions } from './parser.js'
+export type {
+  WalkHandler,
+  AsyncWalkHandler,
+  Visitor,
+  VisitorContext,
+  VisitorHandler,
+  VisitorParent,
+  AsyncVisitor,
+  AsyncVisitorHandler,
+} from './utils.js'
+export type { TransformContext, TransformVisitor } from './transform.js'
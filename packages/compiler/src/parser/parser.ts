@@ -1,72 +1,380 @@
-import { tokenize } from '../tokenizer/index.js'
-import type { Token } from '../tokenizer/types.js'
-import type { AstroAST, AstroNode, ElementNode, ExpressionNode } from './ast.js'
+import { type Expression, parseExpressionAt } from 'acorn'
+import { CompilerError, createDiagnostic } from '../diagnostics/diagnostic.js'
+import type { Diagnostic, DiagnosticHandler } from '../diagnostics/diagnostic.js'
+import { tokenizeIterator } from '../tokenizer/index.js'
+import type { Point, SourceSpan, Token, TokenType } from '../tokenizer/types.js'
+import type {
+  AstroAST,
+  AstroNode,
+  Attribute,
+  AttributeKind,
+  ElementNode,
+  ExpressionNode,
+  FrontmatterAnalysis,
+  FrontmatterNode,
+  ShorthandAttribute,
+  SpreadAttribute,
+  TemplateNode,
+} from './ast.js'
+import { getElementKind } from './ast.js'
+import { splitDirectives } from './directives.js'
+import { analyzeFrontmatter } from './frontmatter.js'
 
 /**
- * Parser state that maintains the current position in the token stream
+ * Options that control parsing
+ */
+export interface ParseOptions {
+  /**
+   * Keep whitespace between and around nodes as text instead of discarding it,
+   * so inter-element spacing such as `</strong> and` survives into the output
+   */
+  preserveWhitespace?: boolean
+  /**
+   * Parse every expression with acorn and store the resulting ESTree on
+   * `ExpressionNode.ast`. Expressions acorn can't parse are left without one.
+   */
+  parseExpressions?: boolean
+  /**
+   * Statically analyze the frontmatter (TypeScript is tolerated) and store its
+   * imports, top-level bindings, exports and `Props` on `FrontmatterNode.analysis`.
+   * Statements that can't be analyzed are reported as warnings and left out.
+   */
+  analyzeFrontmatter?: boolean
+  /**
+   * Keep going past errors: instead of throwing, return the best AST that can
+   * be built with every problem listed on its `diagnostics`. Meant for editors
+   * and watch mode, where the source is often half-typed.
+   */
+  recover?: boolean
+  /**
+   * Called for each problem found, errors and warnings alike. Without
+   * `recover`, an error is still thrown after being reported here.
+   */
+  onDiagnostic?: DiagnosticHandler
+  /**
+   * Tokens of `source` to parse instead of tokenizing it, such as a
+   * `tokenizeIterator(source)` the caller holds. They are pulled one at a time
+   * as the parser reaches them. Problems the tokenizer finds are then only
+   * reported through the caller's tokenizer options, and a missing EOF token
+   * is added after the last one.
+   */
+  tokens?: Iterable<Token>
+}
+
+/**
+ * A window over a token iterator that keeps only the tokens still ahead of the parser
+ */
+interface TokenStream {
+  /** Get the token at an absolute index, pulling from the iterator as needed */
+  at(index: number): Token
+  /** Forget every token before `index`; the parser never goes back to them */
+  release(index: number): void
+}
+
+/**
+ * Parser state: a cursor into the token stream, moved in place as tokens are consumed
  */
 interface ParserState {
-  tokens: Token[]
+  tokens: TokenStream
+  /** Index of the next token to consume */
   current: number
+  source: string
+  options: ParseOptions
+  /** Names of the elements enclosing the current position (see tagKey), outermost first (a stack) */
+  openElements: string[]
+  /** Record a problem, throwing errors unless recovering */
+  report: DiagnosticHandler
 }
 
+/**
+ * Elements that never have content or an end tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+/**
+ * Start tags that close an open `<p>`
+ */
+const P_CLOSING_TAGS = [
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'details',
+  'div',
+  'dl',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hgroup',
+  'hr',
+  'main',
+  'menu',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]
+
+/**
+ * For elements whose end tag is optional, the start tags that implicitly close them
+ * (https://html.spec.whatwg.org/multipage/syntax.html#optional-tags)
+ */
+const IMPLICITLY_CLOSED_BY = new Map([
+  ['p', new Set(P_CLOSING_TAGS)],
+  ['li', new Set(['li'])],
+  ['dt', new Set(['dt', 'dd'])],
+  ['dd', new Set(['dt', 'dd'])],
+  ['rt', new Set(['rt', 'rp'])],
+  ['rp', new Set(['rt', 'rp'])],
+  ['optgroup', new Set(['optgroup'])],
+  ['option', new Set(['option', 'optgroup'])],
+  ['thead', new Set(['tbody', 'tfoot'])],
+  ['tbody', new Set(['tbody', 'tfoot'])],
+  ['tr', new Set(['tr', 'thead', 'tbody', 'tfoot'])],
+  ['td', new Set(['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'])],
+  ['th', new Set(['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'])],
+])
+
+/**
+ * Elements that may be left open until their parent ends
+ */
+const OPTIONAL_END_TAG_ELEMENTS = new Set([
+  ...IMPLICITLY_CLOSED_BY.keys(),
+  'html',
+  'head',
+  'body',
+  'caption',
+  'colgroup',
+  'tfoot',
+])
+
+/**
+ * Matches text that contains only whitespace and comments
+ */
+const TRIVIA_REGEX = /^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*$/
+
 /**
  * Parse Astro source code into an Abstract Syntax Tree (AST)
  *
+ * The program holds the frontmatter, if the file starts with one, and
+ * then a single Template node with the markup. Malformed markup (unclosed
+ * elements, stray closing tags) is repaired the way browsers do and
+ * reported as a warning. Errors such as an unterminated expression or a
+ * frontmatter block below the top of the file are thrown, unless
+ * `recover` is set.
+ *
  * @param source - The Astro source code to parse
- * @returns The root AST node (Program)
+ * @param options - Parser options
+ * @returns The root AST node (Program), with `diagnostics` when recovering
+ * @throws CompilerError if the source can't be parsed and `recover` is not set
  *
  * @example
  * ```typescript
  * const ast = parse('<div>Hello {name}</div>')
- * console.log(ast) // { type: 'Program', children: [...] }
+ * console.log(ast) // { type: 'Program', children: [{ type: 'Template', children: [...] }] }
+ *
+ * const { diagnostics } = parse('<div>{name', { recover: true })
+ * console.log(diagnostics[0].code) // 'unterminated-expression'
  * ```
  */
-export function parse(source: string): AstroAST {
-  const tokens = tokenize(source)
-  const initialState: ParserState = { tokens, current: 0 }
-  const { children } = parseProgram(initialState)
+export function parse(
+  source: string,
+  options: ParseOptions & { recover: true },
+): AstroAST & { diagnostics: Diagnostic[] }
+export function parse(source: string, options?: ParseOptions): AstroAST
+export function parse(source: string, options: ParseOptions = {}): AstroAST {
+  const diagnostics: Diagnostic[] = []
+  const report: DiagnosticHandler = diagnostic => {
+    options.onDiagnostic?.(diagnostic)
+    if (diagnostic.severity === 'error' && !options.recover) {
+      throw new CompilerError(diagnostic)
+    }
+    diagnostics.push(diagnostic)
+  }
 
-  return {
+  // Tokens are pulled lazily and dropped once consumed, so memory stays flat on large files
+  const tokens = createTokenStream(
+    options.tokens ??
+      tokenizeIterator(source, {
+        preserveWhitespace: options.preserveWhitespace,
+        onDiagnostic: report,
+      }),
+  )
+  const state: ParserState = {
+    tokens,
+    current: 0,
+    source,
+    options,
+    openElements: [],
+    report,
+  }
+  const start = peek(state).span.start
+  const children = parseProgram(state)
+
+  const ast: AstroAST = {
     type: 'Program',
     children,
+    position: { start, end: peek(state).span.end },
+  }
+  if (options.recover) {
+    ast.diagnostics = diagnostics
+  }
+  return ast
+}
+
+/**
+ * Released tokens are only dropped from the buffer once there are at least
+ * this many, and at least as many as the tokens still held
+ */
+const COMPACT_THRESHOLD = 1024
+
+/**
+ * Buffer a token iterable so the parser can look ahead by index
+ *
+ * @param tokens - The token source, read as far as the parser asks; an EOF
+ *   token is added if it doesn't end with one
+ * @returns A token stream over the tokens
+ */
+function createTokenStream(tokens: Iterable<Token>): TokenStream {
+  const iterator = tokens[Symbol.iterator]()
+  const buffer: Token[] = []
+  // Position in the buffer of the first token not released, and its absolute index
+  let head = 0
+  let base = 0
+  let done = false
+  let last: Token | undefined
+
+  return {
+    at(index) {
+      if (index < base) {
+        throw new Error(`Token ${index} was already released`)
+      }
+      const position = head + index - base
+      while (!done && position >= buffer.length) {
+        const result = iterator.next()
+        if (result.done) {
+          done = true
+          if (last?.type !== 'EOF') {
+            const end = last?.span.end ?? { offset: 0, line: 1, column: 1 }
+            last = {
+              type: 'EOF',
+              value: '',
+              line: end.line,
+              col: end.column,
+              span: { start: end, end },
+            }
+            buffer.push(last)
+          }
+        } else {
+          buffer.push(result.value)
+          last = result.value
+        }
+      }
+      // Reading past the end keeps returning EOF
+      return buffer[position] ?? (last as Token)
+    },
+    release(index) {
+      if (index <= base) {
+        return
+      }
+      head += index - base
+      base = index
+      // Moving the held tokens only once the released ones outnumber them keeps this O(1) amortized
+      if (head >= COMPACT_THRESHOLD && head * 2 >= buffer.length) {
+        buffer.splice(0, head)
+        head = 0
+      }
+    },
   }
 }
 
 /**
- * Parse the entire program by collecting all top-level nodes
+ * Parse the entire program: the frontmatter, if the file starts with one, then the template
  *
- * @param initialState - The initial parser state
- * @returns An object containing the parsed children and final state
+ * @param state - The parser state, positioned at the first token
+ * @returns The program's children
  */
-function parseProgram(initialState: ParserState): { children: AstroNode[]; state: ParserState } {
+function parseProgram(state: ParserState): AstroNode[] {
   const children: AstroNode[] = []
-  let state = initialState
 
-  while (!isAtEnd(state)) {
-    const { node, state: nextState } = parseNode(state)
+  const first = peek(state)
+  if (first.type === 'FRONTMATTER_START' && first.span.start.offset === 0) {
+    children.push(parseFrontmatter(state, state.options.analyzeFrontmatter))
+  }
+
+  children.push(parseTemplate(state))
+  return children
+}
 
+/**
+ * Parse everything up to the end of the file into the template
+ *
+ * @param state - The parser state, positioned after the frontmatter
+ * @returns The template node
+ */
+function parseTemplate(state: ParserState): TemplateNode {
+  const children: AstroNode[] = []
+  const start = peek(state).span.start
+
+  while (!isAtEnd(state)) {
+    const node = parseNode(state)
     if (node) {
       children.push(node)
     }
-
-    state = nextState
   }
 
-  return { children, state }
+  return { type: 'Template', children, position: { start, end: peek(state).span.end } }
 }
 
 /**
  * Parse a single node based on the current token
  *
- * @param state - The current parser state
- * @returns An object containing the parsed node (or null) and new state
+ * @param state - The parser state, advanced past the node
+ * @returns The parsed node, or null if the tokens produce none
  */
-function parseNode(state: ParserState): { node: AstroNode | null; state: ParserState } {
+function parseNode(state: ParserState): AstroNode | null {
   const token = peek(state)
 
-  if (token.type === 'FRONTMATTER_START') {
-    return parseFrontmatter(state)
+  // Only a block at the very start of the file is frontmatter (see parseProgram);
+  // inside an element, a fenced block is text
+  if (token.type === 'FRONTMATTER_START' && !state.openElements.length) {
+    const node = parseFrontmatter(state, false)
+    state.report(
+      createDiagnostic(state.source, {
+        code: 'misplaced-frontmatter',
+        severity: 'error',
+        message: 'Frontmatter must be at the top of the file',
+        span: node.position,
+        hint: 'Move this block to the start of the file, before any markup or whitespace',
+      }),
+    )
+    return null
   }
 
   if (token.type === 'HTML_TAG_OPEN') {
@@ -74,212 +382,603 @@ function parseNode(state: ParserState): { node: AstroNode | null; state: ParserS
   }
 
   if (token.type === 'HTML_TAG_CLOSE' && peek(state, 1)?.type === 'HTML_TAG_NAME') {
-    // Skip closing tags, they're handled in parseElement
-    const s1 = advance(state) // </
-    const s2 = advance(s1.state) // tag name
-    const s3 = advance(s2.state) // >
-    return { node: null, state: s3.state }
+    // Matching closing tags are consumed by parseElement, so this one closes nothing
+    advance(state) // </
+    const nameToken = advance(state)
+    let endToken = nameToken
+    skipEndTagRest(state)
+    if (peek(state).type === 'HTML_TAG_CLOSE') {
+      endToken = advance(state) // >
+    }
+    state.report(
+      createDiagnostic(state.source, {
+        code: 'unexpected-close-tag',
+        severity: 'warning',
+        message: `</${nameToken.value}> has no matching opening tag`,
+        span: spanBetween(token, endToken),
+        hint: 'Remove it, or add the opening tag it was meant to close',
+      }),
+    )
+    return null
   }
 
   if (token.type === 'EXPRESSION_START') {
     return parseExpression(state)
   }
 
-  if (token.type === 'TEXT') {
+  if (isTextToken(state, token)) {
     return parseText(state)
   }
 
   if (token.type === 'EOF') {
-    return { node: null, state }
+    return null
+  }
+
+  advance(state)
+
+  if (token.type === 'RAW_TEXT') {
+    return { type: 'Text', value: token.value, raw: true, position: token.span }
+  }
+
+  if (token.type === 'COMMENT') {
+    return { type: 'Comment', value: token.value, position: token.span }
+  }
+
+  if (token.type === 'DOCTYPE') {
+    return {
+      type: 'Doctype',
+      value: token.value,
+      raw: state.source.slice(token.span.start.offset, token.span.end.offset),
+      position: token.span,
+    }
+  }
+
+  if (token.type === 'PROCESSING_INSTRUCTION') {
+    return { type: 'ProcessingInstruction', value: token.value, position: token.span }
   }
 
   // Skip unknown tokens
-  return { node: null, state: advance(state).state }
+  return null
 }
 
 /**
  * Parse frontmatter block (JavaScript/TypeScript code between --- markers)
  *
- * @param state - The current parser state
- * @returns An object containing the parsed frontmatter node and new state
+ * @param state - The parser state, advanced past the block
+ * @param analyze - Whether to attach the frontmatter analysis
+ * @returns The parsed frontmatter node
  */
-function parseFrontmatter(state: ParserState): { node: AstroNode; state: ParserState } {
-  const { state: s1 } = consume(state, 'FRONTMATTER_START')
+function parseFrontmatter(state: ParserState, analyze = false): FrontmatterNode {
+  const startToken = consume(state, 'FRONTMATTER_START')
+  skipWhitespace(state)
 
-  let value = ''
-  let currentState = s1
-
-  while (peek(currentState).type === 'FRONTMATTER_CONTENT') {
-    const result = advance(currentState)
-    value += result.token.value
-    currentState = result.state
+  let firstContent: Token | undefined
+  let lastToken = startToken
+  while (peek(state).type === 'FRONTMATTER_CONTENT') {
+    lastToken = advance(state)
+    firstContent ??= lastToken
+    skipWhitespace(state)
   }
+  const codeStart = firstContent ? firstContent.span.start.offset : startToken.span.end.offset
 
-  const { state: finalState } = consume(currentState, 'FRONTMATTER_END')
+  // An unterminated block (already reported by the tokenizer) runs to the end of the file
+  let endToken = lastToken
+  let codeEnd = lastToken.span.end.offset
+  if (peek(state).type === 'FRONTMATTER_END') {
+    endToken = advance(state)
+    codeEnd = endToken.span.start.offset
+  }
 
-  return {
-    node: {
-      type: 'Frontmatter',
-      value: value.trim(),
-    },
-    state: finalState,
+  const node: FrontmatterNode = {
+    type: 'Frontmatter',
+    value: firstContent ? state.source.slice(codeStart, lastToken.span.end.offset).trim() : '',
+    position: spanBetween(startToken, endToken),
+  }
+  if (analyze) {
+    node.analysis = analyzeFrontmatterSource(state, codeStart, codeEnd)
   }
+
+  return node
 }
 
 /**
- * Parse HTML/JSX element including attributes and children
+ * Run the frontmatter analysis, reporting code it can't handle
  *
  * @param state - The current parser state
- * @returns An object containing the parsed element node and new state
+ * @param start - Offset of the first character of the frontmatter code
+ * @param end - Offset just after the frontmatter code
+ * @returns The analysis of every statement that could be parsed
+ */
+function analyzeFrontmatterSource(
+  state: ParserState,
+  start: number,
+  end: number,
+): FrontmatterAnalysis {
+  return analyzeFrontmatter(state.source, start, end, error => {
+    // acorn adds the offending offset and position, and repeats the position in the message
+    const { pos, loc } = error as SyntaxError & {
+      pos: number
+      loc: { line: number; column: number }
+    }
+    const point = { offset: pos, line: loc.line, column: loc.column + 1 }
+    state.report(
+      createDiagnostic(state.source, {
+        code: 'invalid-frontmatter',
+        severity: 'warning',
+        message: `Frontmatter could not be analyzed: ${error.message.replace(/ \(\d+:\d+\)$/, '')}`,
+        span: { start: point, end: { ...point, offset: pos + 1, column: point.column + 1 } },
+        hint: 'Check the frontmatter for syntax errors',
+      }),
+    )
+  })
+}
+
+/**
+ * Parse HTML/JSX element including attributes and children
+ *
+ * Children run until the matching end tag, or until HTML's optional-end-tag
+ * rules close the element: an enclosing element's end tag or a start tag
+ * such as a sibling `<li>`. Void elements never have children.
+ *
+ * @param state - The parser state, advanced past the element
+ * @returns The parsed element node
  */
-function parseElement(state: ParserState): { node: ElementNode; state: ParserState } {
-  const { state: s1 } = consume(state, 'HTML_TAG_OPEN')
-  const { token: nameToken, state: s2 } = consume(s1, 'HTML_TAG_NAME')
+function parseElement(state: ParserState): ElementNode {
+  const openToken = consume(state, 'HTML_TAG_OPEN')
+  const nameToken = consume(state, 'HTML_TAG_NAME')
   const name = nameToken.value
+  const key = tagKey(name)
 
   const attributes: ElementNode['attributes'] = []
-  let currentState = s2
 
   // Parse attributes
   while (
-    peek(currentState).type !== 'HTML_TAG_CLOSE' &&
-    peek(currentState).type !== 'HTML_TAG_SELF_CLOSE' &&
-    !isAtEnd(currentState)
+    peek(state).type !== 'HTML_TAG_CLOSE' &&
+    peek(state).type !== 'HTML_TAG_SELF_CLOSE' &&
+    !isAtEnd(state)
   ) {
-    if (peek(currentState).type === 'HTML_ATTRIBUTE_NAME') {
-      const attrResult = advance(currentState)
-      const attrName = attrResult.token.value
-      currentState = attrResult.state
+    if (peek(state).type === 'HTML_ATTRIBUTE_NAME') {
+      const attrToken = advance(state)
 
       let attrValue: string | ExpressionNode = ''
+      let kind: AttributeKind = 'empty'
+      let valuePosition: SourceSpan | undefined
 
       // Skip whitespace and equals
-      while (peek(currentState).type === 'TEXT' && peek(currentState).value.trim() === '') {
-        currentState = advance(currentState).state
-      }
+      skipWhitespace(state)
 
-      if (peek(currentState).value === '=') {
-        currentState = advance(currentState).state // Skip =
+      if (peek(state).type === 'HTML_ATTRIBUTE_EQUALS') {
+        advance(state) // Skip =
+        skipWhitespace(state)
+        kind = 'unquoted'
 
-        // Skip whitespace
-        while (peek(currentState).type === 'TEXT' && peek(currentState).value.trim() === '') {
-          currentState = advance(currentState).state
-        }
-
-        if (peek(currentState).type === 'HTML_ATTRIBUTE_VALUE') {
-          const valueResult = advance(currentState)
-          attrValue = valueResult.token.value
-          currentState = valueResult.state
-        } else if (peek(currentState).type === 'EXPRESSION_START') {
-          const exprResult = parseExpression(currentState)
-          attrValue = exprResult.node as ExpressionNode
-          currentState = exprResult.state
+        if (peek(state).type === 'HTML_ATTRIBUTE_VALUE') {
+          const valueToken = advance(state)
+          const firstChar = state.source[valueToken.span.start.offset]
+          attrValue = valueToken.value
+          kind = firstChar === '"' || firstChar === "'" ? 'quoted' : 'unquoted'
+          valuePosition = valueToken.span
+        } else if (peek(state).type === 'HTML_ATTRIBUTE_TEMPLATE_LITERAL') {
+          const literalToken = advance(state)
+          attrValue = parseTemplateLiteral(literalToken, state)
+          kind = 'template-literal'
+          valuePosition = literalToken.span
+        } else if (peek(state).type === 'EXPRESSION_START') {
+          attrValue = parseExpression(state)
+          kind = 'expression'
+          valuePosition = attrValue.position
         }
       }
 
-      attributes.push({ name: attrName, value: attrValue })
+      const namePosition = attrToken.span
+      const attribute: Attribute = {
+        type: 'Attribute',
+        name: attrToken.value,
+        value: attrValue,
+        kind,
+        position: { start: namePosition.start, end: (valuePosition ?? namePosition).end },
+        namePosition,
+      }
+      if (valuePosition) {
+        attribute.valuePosition = valuePosition
+      }
+      attributes.push(attribute)
+    } else if (peek(state).type === 'EXPRESSION_START') {
+      attributes.push(toExpressionAttribute(parseExpression(state), state))
     } else {
-      currentState = advance(currentState).state // Skip unknown tokens in tag
+      advance(state) // Skip unknown tokens in tag
     }
   }
 
-  const selfClosing = peek(currentState).type === 'HTML_TAG_SELF_CLOSE'
-  currentState = advance(currentState).state // Consume > or />
+  const selfClosing = peek(state).type === 'HTML_TAG_SELF_CLOSE'
+  let end = advance(state).span.end // Consume > or />
 
   const children: AstroNode[] = []
 
-  if (!selfClosing) {
+  // Void elements (<img>, <br>, ...) have no content, even without `/>`
+  if (!selfClosing && !VOID_ELEMENTS.has(key)) {
+    const { openElements } = state
+    openElements.push(key)
+    let closed = false
+
     // Parse children until closing tag
-    while (!isAtEnd(currentState)) {
+    while (!isAtEnd(state)) {
+      const closeName =
+        peek(state).type === 'HTML_TAG_CLOSE' && peek(state, 1)?.type === 'HTML_TAG_NAME'
+          ? tagKey(peek(state, 1).value)
+          : undefined
+
+      // A closing tag for an enclosing element also ends this one
+      if (closeName !== undefined && closeName !== key && openElements.includes(closeName)) {
+        break
+      }
+
+      // Markup inside an expression ends where the expression's code resumes
+      const nextType = peek(state).type
+      if (nextType === 'EXPRESSION_CONTENT' || nextType === 'EXPRESSION_END') {
+        break
+      }
+
+      // So does a start tag that implies this element's end (`<li>a<li>b`)
       if (
-        peek(currentState).type === 'HTML_TAG_CLOSE' &&
-        peek(currentState, 1)?.type === 'HTML_TAG_NAME' &&
-        peek(currentState, 1)?.value === name
+        peek(state).type === 'HTML_TAG_OPEN' &&
+        IMPLICITLY_CLOSED_BY.get(key)?.has(tagKey(peek(state, 1).value))
       ) {
         break
       }
 
-      const childResult = parseNode(currentState)
-      if (childResult.node) {
-        children.push(childResult.node)
+      if (closeName === key) {
+        // Consume the closing tag so the element's span ends at its `>`
+        advance(state) // </
+        end = advance(state).span.end // tag name
+        skipEndTagRest(state)
+        if (peek(state).type === 'HTML_TAG_CLOSE') {
+          end = advance(state).span.end // >
+        }
+        closed = true
+        break
+      }
+
+      const child = parseNode(state)
+      if (child) {
+        children.push(child)
+      }
+    }
+
+    if (!closed) {
+      // The element ends where its content does
+      const lastChild = children.at(-1)
+      if (lastChild?.position) {
+        end = lastChild.position.end
       }
-      currentState = childResult.state
     }
+    if (!closed && !OPTIONAL_END_TAG_ELEMENTS.has(key)) {
+      state.report(
+        createDiagnostic(state.source, {
+          code: 'unclosed-element',
+          severity: 'warning',
+          message: `<${name}> is never closed`,
+          span: spanBetween(openToken, nameToken),
+          hint: `Add </${name}> where the element should end`,
+        }),
+      )
+    }
+    openElements.pop()
+  }
+
+  const kind = getElementKind({ name })
+  const split = splitDirectives({ name, kind }, attributes, state.source, state.report)
+  const node: ElementNode = {
+    type: 'Element',
+    name,
+    kind,
+    attributes: split.attributes,
+    children,
+    selfClosing,
+    position: { start: openToken.span.start, end },
+  }
+  if (split.directives.length) {
+    node.directives = split.directives
+  }
+
+  return node
+}
+
+/**
+ * Build the expression node for a template-literal attribute value
+ *
+ * The value keeps the backticks, so it is itself a valid JavaScript
+ * expression that compiled output can evaluate to interpolate it.
+ *
+ * @param token - The HTML_ATTRIBUTE_TEMPLATE_LITERAL token
+ * @param state - The parser state, used to parse the literal's ESTree
+ * @returns The expression node
+ */
+function parseTemplateLiteral(token: Token, state: ParserState): ExpressionNode {
+  const node: ExpressionNode = { type: 'Expression', value: token.value, position: token.span }
+  if (state.options.parseExpressions) {
+    const ast = parseExpressionSource(state.source, token.span.start, token.span.end.offset)
+    if (ast) {
+      node.ast = ast
+    }
+  }
+  return node
+}
+
+/**
+ * Matches a JavaScript identifier, the only thing shorthand attribute braces may hold
+ */
+const IDENTIFIER_REGEX = /^[$_\p{ID_Start}](?:[$\p{ID_Continue}]|\u200c|\u200d)*$/u
+
+/**
+ * Turn an expression written in attribute position into a shorthand or spread attribute
+ *
+ * `{...props}` becomes a spread whose expression is the spread argument (`props`);
+ * anything else, such as `{title}`, is shorthand for `title={title}`. Shorthand
+ * for anything but an identifier (`{a.b}`, `{fn()}`) has no attribute name and
+ * is reported.
+ *
+ * @param expression - The expression parsed from the tag
+ * @param state - The parser state, used to parse the spread argument's ESTree
+ * @returns The attribute node
+ */
+function toExpressionAttribute(
+  expression: ExpressionNode,
+  state: ParserState,
+): ShorthandAttribute | SpreadAttribute {
+  const code = expression.value
+
+  if (code.startsWith('...') && expression.position) {
+    const { start, end } = expression.position
+    const value = code.slice(3).trim()
+    // The argument's own span, without the braces, the `...` and the whitespace around it
+    const codeStart = state.source.indexOf('...', start.offset) + 3
+    let argumentStart = codeStart
+    while (/\s/.test(state.source[argumentStart] ?? '')) {
+      argumentStart++
+    }
+    const argumentPoint = pointAt(state.source, start, argumentStart)
+    const argument: ExpressionNode = {
+      type: 'Expression',
+      value,
+      position: {
+        start: argumentPoint,
+        end: pointAt(state.source, argumentPoint, argumentStart + value.length),
+      },
+    }
+    if (state.options.parseExpressions) {
+      const ast = parseExpressionSource(
+        state.source,
+        pointAt(state.source, start, codeStart),
+        end.offset - 1,
+      )
+      if (ast) {
+        argument.ast = ast
+      }
+    }
+    return { type: 'SpreadAttribute', value: argument, position: expression.position }
+  }
+
+  if (!IDENTIFIER_REGEX.test(code)) {
+    state.report(
+      createDiagnostic(state.source, {
+        code: 'invalid-shorthand-attribute',
+        severity: 'error',
+        message: `{${code}} is not a valid shorthand attribute`,
+        span: expression.position,
+        hint: `Use a single variable name, or give the attribute a name: name={${code}}`,
+      }),
+    )
   }
 
   return {
-    node: {
-      type: 'Element',
-      name,
-      attributes,
-      children,
-      selfClosing,
-    },
-    state: currentState,
+    type: 'ShorthandAttribute',
+    name: code,
+    value: expression,
+    position: expression.position,
   }
 }
 
 /**
  * Parse JavaScript expression within curly braces { }
  *
- * @param state - The current parser state
- * @returns An object containing the parsed expression node and new state
+ * @param state - The parser state, advanced past the expression
+ * @returns The parsed expression node
  */
-function parseExpression(state: ParserState): { node: ExpressionNode; state: ParserState } {
-  const { state: s1 } = consume(state, 'EXPRESSION_START')
+function parseExpression(state: ParserState): ExpressionNode {
+  const startToken = consume(state, 'EXPRESSION_START')
+
+  // Code chunks and the markup embedded between them
+  const children: AstroNode[] = []
+  let hasMarkup = false
+  let end = startToken.span.end
 
-  let value = ''
-  let currentState = s1
+  // Markup inside the expression can't close elements outside it
+  const openElements = state.openElements
+  state.openElements = []
 
-  while (peek(currentState).type === 'EXPRESSION_CONTENT') {
-    const result = advance(currentState)
-    value += result.token.value
-    currentState = result.state
+  while (true) {
+    const token = peek(state)
+    if (token.type === 'EXPRESSION_CONTENT') {
+      advance(state)
+      children.push({ type: 'Text', value: token.value, raw: true, position: token.span })
+      end = token.span.end
+    } else if (token.type === 'HTML_TAG_OPEN') {
+      const element = parseElement(state)
+      children.push(element)
+      hasMarkup = true
+      end = element.position?.end ?? end
+    } else {
+      break
+    }
   }
 
-  const { state: finalState } = consume(currentState, 'EXPRESSION_END')
+  state.openElements = openElements
 
-  return {
-    node: {
-      type: 'Expression',
-      value: value.trim(),
-    },
-    state: finalState,
+  // An unterminated expression (already reported by the tokenizer) runs to the end of the file
+  let codeEnd = end
+  if (peek(state).type === 'EXPRESSION_END') {
+    const endToken = advance(state)
+    codeEnd = endToken.span.start
+    end = endToken.span.end
+  }
+
+  const node: ExpressionNode = {
+    type: 'Expression',
+    value: state.source.slice(startToken.span.end.offset, codeEnd.offset).trim(),
+    position: { start: startToken.span.start, end },
+  }
+  if (hasMarkup) {
+    node.children = children
+  }
+
+  if (state.options.parseExpressions && node.value && !hasMarkup) {
+    const ast = parseExpressionSource(state.source, startToken.span.end, codeEnd.offset)
+    if (ast) {
+      node.ast = ast
+    }
   }
+
+  return node
 }
 
 /**
- * Parse text content between elements
+ * Parse the code between an expression's braces into an ESTree node
+ *
+ * Only the expression's own code is handed to acorn (given the whole file,
+ * acorn counts the lines before the start on every call, which is quadratic
+ * over a file with many expressions); node offsets and locations are then
+ * shifted so they point into the original file.
+ *
+ * @param source - The full source text
+ * @param start - Position of the first character after `{`
+ * @param end - Offset of the closing `}`
+ * @returns The parsed expression, or undefined if the code is not a single valid expression
+ */
+function parseExpressionSource(source: string, start: Point, end: number): Expression | undefined {
+  const code = source.slice(start.offset, end)
+  let ast: Expression
+  try {
+    ast = parseExpressionAt(code, 0, {
+      ecmaVersion: 'latest',
+      sourceType: 'module',
+      locations: true,
+    })
+  } catch {
+    // JSX, TypeScript or incomplete code
+    return undefined
+  }
+  if (!TRIVIA_REGEX.test(code.slice(ast.end))) {
+    return undefined
+  }
+  shiftLocations(ast, start, new Set())
+  return ast
+}
+
+/**
+ * Move the offsets and locations of an ESTree parsed from a slice of the source
+ *
+ * acorn shares position objects between a node and its first child, so
+ * each one is shifted only the first time it is seen.
+ *
+ * @param value - An ESTree node, or any value found on one
+ * @param start - Where the slice starts in the source
+ * @param shifted - Position objects already shifted
+ */
+function shiftLocations(value: unknown, start: Point, shifted: Set<object>): void {
+  if (Array.isArray(value)) {
+    for (const item of value) shiftLocations(item, start, shifted)
+    return
+  }
+  if (!value || typeof value !== 'object' || !('type' in value)) return
+
+  const node = value as Record<string, unknown> & Expression
+  node.start += start.offset
+  node.end += start.offset
+  for (const position of [node.loc?.start, node.loc?.end]) {
+    if (!position || shifted.has(position)) continue
+    // Only the first line of the slice starts mid-line
+    if (position.line === 1) position.column += start.column - 1
+    position.line += start.line - 1
+    shifted.add(position)
+  }
+
+  for (const key in node) {
+    if (key !== 'loc') shiftLocations(node[key], start, shifted)
+  }
+}
+
+/**
+ * Find the position of an offset that lies after a known position
+ *
+ * @param source - The full source text
+ * @param from - A position at or before `offset`
+ * @param offset - The offset to locate
+ * @returns The position of `offset`
+ */
+function pointAt(source: string, from: Point, offset: number): Point {
+  let { line, column } = from
+  for (let index = from.offset; index < offset; index++) {
+    if (source[index] === '\n') {
+      line++
+      column = 1
+    } else {
+      column++
+    }
+  }
+  return { offset, line, column }
+}
+
+/**
+ * Whether the token is part of text content
  *
  * @param state - The current parser state
- * @returns An object containing the parsed text node (or null if empty) and new state
+ * @param token - The token to check
+ * @returns True for text and whitespace, and for a fenced `---` block inside an element
+ */
+function isTextToken(state: ParserState, token: Token): boolean {
+  return (
+    token.type === 'TEXT' ||
+    token.type === 'WHITESPACE' ||
+    (token.type.startsWith('FRONTMATTER_') && state.openElements.length > 0)
+  )
+}
+
+/**
+ * Parse text content between elements
+ *
+ * Consecutive text tokens (see isTextToken) are merged into one node.
+ * WHITESPACE tokens only exist in lossless mode, where whitespace-only text is kept.
+ *
+ * @param state - The parser state, advanced past the text
+ * @returns The parsed text node, or null if empty
  */
-function parseText(state: ParserState): { node: AstroNode | null; state: ParserState } {
-  let value = ''
-  let currentState = state
+function parseText(state: ParserState): AstroNode | null {
+  const startToken = peek(state)
+  let endToken = startToken
 
-  while (peek(currentState).type === 'TEXT' && !isAtEnd(currentState)) {
-    const result = advance(currentState)
-    value += result.token.value
-    currentState = result.state
+  while (isTextToken(state, peek(state)) && !isAtEnd(state)) {
+    endToken = advance(state)
   }
 
-  // Only return text node if it has non-whitespace content
-  const trimmed = value.trim()
-  if (!trimmed) {
-    return { node: null, state: currentState }
+  // Read from the source rather than joining token values: the whitespace
+  // around a fenced block has no tokens outside lossless mode
+  const value =
+    endToken === startToken
+      ? startToken.value
+      : state.source.slice(startToken.span.start.offset, endToken.span.end.offset)
+  if (!value) {
+    return null
   }
 
   return {
-    node: {
-      type: 'Text',
-      value,
-    },
-    state: currentState,
+    type: 'Text',
+    value,
+    position: spanBetween(startToken, endToken),
   }
 }
 
-// Immutable state helpers
+// Cursor helpers
 
 /**
  * Look at a token without consuming it
@@ -289,46 +988,95 @@ function parseText(state: ParserState): { node: AstroNode | null; state: ParserS
  * @returns The token at the specified position
  */
 function peek(state: ParserState, offset = 0): Token {
-  const index = state.current + offset
-  if (index >= state.tokens.length) {
-    return state.tokens[state.tokens.length - 1]
-  }
-  return state.tokens[index]
+  return state.tokens.at(state.current + offset)
 }
 
 /**
- * Consume the current token and advance to the next one
+ * Consume the current token and move the cursor to the next one
  *
- * @param state - The current parser state
- * @returns An object containing the consumed token and new state
+ * The cursor stays on EOF once it gets there.
+ *
+ * @param state - The parser state, whose cursor is moved
+ * @returns The consumed token
  */
-function advance(state: ParserState): { token: Token; state: ParserState } {
-  if (isAtEnd(state)) {
-    return { token: state.tokens[state.current], state }
-  }
-
-  return {
-    token: state.tokens[state.current],
-    state: { ...state, current: state.current + 1 },
+function advance(state: ParserState): Token {
+  const token = peek(state)
+  if (token.type !== 'EOF') {
+    state.tokens.release(state.current)
+    state.current++
   }
+  return token
 }
 
 /**
  * Consume a token of a specific type or throw an error
  *
- * @param state - The current parser state
+ * @param state - The parser state, whose cursor is moved
  * @param type - The expected token type
- * @returns An object containing the consumed token and new state
+ * @returns The consumed token
  * @throws Error if the current token doesn't match the expected type
  */
-function consume(state: ParserState, type: string): { token: Token; state: ParserState } {
+function consume(state: ParserState, type: TokenType): Token {
   const token = peek(state)
   if (token.type !== type) {
-    throw new Error(`Expected ${type} but got ${token.type}`)
+    throw new CompilerError(
+      createDiagnostic(state.source, {
+        code: 'unexpected-token',
+        severity: 'error',
+        message: `Expected ${type} but got ${token.type}`,
+        span: token.span,
+      }),
+    )
   }
   return advance(state)
 }
 
+/**
+ * Skip over any WHITESPACE tokens
+ *
+ * @param state - The parser state, moved to the next non-whitespace token
+ */
+function skipWhitespace(state: ParserState): void {
+  while (peek(state).type === 'WHITESPACE') {
+    advance(state)
+  }
+}
+
+/**
+ * The name an element is looked up and matched with its end tag by
+ *
+ * HTML element names are case-insensitive (`<BR>`, `</DIV>`), so they are
+ * lower-cased; component and custom element names are kept as written.
+ *
+ * @param name - The tag name as written
+ * @returns The name to compare
+ */
+function tagKey(name: string): string {
+  return getElementKind({ name }) === 'element' ? name.toLowerCase() : name
+}
+
+/**
+ * Skip what follows an end tag's name, which has no meaning (`</div foo>`)
+ *
+ * @param state - The parser state, moved to the end tag's `>`
+ */
+function skipEndTagRest(state: ParserState): void {
+  while (peek(state).type === 'WHITESPACE' || peek(state).type === 'HTML_TAG_INVALID') {
+    advance(state)
+  }
+}
+
+/**
+ * Build the source span running from the start of one token to the end of another
+ *
+ * @param first - The first token belonging to the node
+ * @param last - The last token belonging to the node
+ * @returns The combined source span
+ */
+function spanBetween(first: Token, last: Token): SourceSpan {
+  return { start: first.span.start, end: last.span.end }
+}
+
 /**
  * Check if we've reached the end of the token stream
  *
@@ -0,0 +1,474 @@
+/**
+ * CSS selector queries
+ *
+ * `querySelector` and `querySelectorAll` find elements in an AST with the
+ * selectors used for the DOM, extended to Astro's names: component names
+ * (`Card`, `UI.Button`) are type selectors, and directives can be matched
+ * like attributes (`[client\:load]`).
+ *
+ * Supported: type and universal selectors, `.class`, `#id`, attribute
+ * selectors (`[name]`, `=`, `~=`, `|=`, `^=`, `$=`, `*=`), the descendant
+ * and child (`>`) combinators, `:has()` and selector lists (`a, b`).
+ *
+ * @module query
+ */
+
+import type { AstroNode, ElementNode, ExpressionNode } from './ast.js'
+import { getElementKind } from './ast.js'
+
+/**
+ * One compound selector, such as `a.external[href^="https:"]`
+ */
+interface CompoundSelector {
+  /** Type selector; undefined for `*` or none */
+  name?: string
+  /** Matches only the element `:has()` was applied to (the implicit start of a relative selector) */
+  scope?: boolean
+  ids: string[]
+  classes: string[]
+  attributes: AttributeSelector[]
+  /** The selector lists of each `:has()`, all of which must match */
+  has: ComplexSelector[][]
+}
+
+interface AttributeSelector {
+  name: string
+  operator?: '=' | '~=' | '|=' | '^=' | '$=' | '*='
+  value?: string
+}
+
+/**
+ * Compound selectors from left to right, each with the combinator that links it to the one before
+ */
+type ComplexSelector = { combinator: ' ' | '>'; compound: CompoundSelector }[]
+
+/**
+ * Characters that may appear in a name without escaping (besides non-ASCII characters)
+ */
+const NAME_CHAR_REGEX = /[\w-]/
+
+/**
+ * Find the first element that matches a selector
+ *
+ * @param ast - The AST (or subtree) to search; the root itself is not a candidate
+ * @param selector - A CSS selector list
+ * @returns The first matching element in source order, or null if there is none
+ * @throws SyntaxError if the selector is invalid or uses unsupported syntax
+ *
+ * @example
+ * ```typescript
+ * querySelector(ast, 'head > title')
+ * querySelector(ast, 'UI.Button[client\\:load]')
+ * ```
+ */
+export function querySelector(ast: AstroNode, selector: string): ElementNode | null {
+  const list = parseSelector(selector)
+  let found: ElementNode | null = null
+  eachElement(ast, (element, ancestors) => {
+    if (!matchesList(list, element, ancestors)) return false
+    found = element
+    return true
+  })
+  return found
+}
+
+/**
+ * Find every element that matches a selector
+ *
+ * @param ast - The AST (or subtree) to search; the root itself is not a candidate
+ * @param selector - A CSS selector list
+ * @returns The matching elements in source order
+ * @throws SyntaxError if the selector is invalid or uses unsupported syntax
+ *
+ * @example
+ * ```typescript
+ * // Sections that contain a component hydrated on load or when idle
+ * querySelectorAll(ast, 'section:has([client\\:load], [client\\:idle])')
+ * querySelectorAll(ast, 'nav > ul > li a[href^="https:"]')
+ * ```
+ */
+export function querySelectorAll(ast: AstroNode, selector: string): ElementNode[] {
+  const list = parseSelector(selector)
+  const found: ElementNode[] = []
+  eachElement(ast, (element, ancestors) => {
+    if (matchesList(list, element, ancestors)) {
+      found.push(element)
+    }
+    return false
+  })
+  return found
+}
+
+/**
+ * Call `callback` for each element below `root` in source order, with its
+ * enclosing elements (outermost first)
+ *
+ * Markup inside expressions is included; the expression does not count as
+ * an ancestor, so in `<ul>{items.map(item => <li />)}</ul>` the `<li>` is a
+ * child of the `<ul>`.
+ *
+ * @param callback - Returns true to stop
+ * @returns True if the callback stopped the search
+ */
+function eachElement(
+  root: AstroNode,
+  callback: (element: ElementNode, ancestors: ElementNode[]) => boolean,
+): boolean {
+  const ancestors: ElementNode[] = []
+
+  function visit(node: AstroNode): boolean {
+    if (node !== root && node.type === 'Element' && callback(node, ancestors)) {
+      return true
+    }
+    if (node.type === 'Element') {
+      ancestors.push(node)
+    }
+
+    const values: ExpressionNode[] = []
+    if (node.type === 'Element') {
+      for (const holder of [...node.attributes, ...(node.directives ?? [])]) {
+        if (typeof holder.value === 'object') values.push(holder.value)
+      }
+    }
+    const children = 'children' in node && Array.isArray(node.children) ? node.children : []
+    for (const child of [...values, ...children]) {
+      if (visit(child)) return true
+    }
+
+    if (node.type === 'Element') {
+      ancestors.pop()
+    }
+    return false
+  }
+
+  return visit(root)
+}
+
+/**
+ * Whether an element matches any selector of a list
+ *
+ * @param scope - The element a relative selector is anchored to, inside `:has()`
+ */
+function matchesList(
+  list: ComplexSelector[],
+  element: ElementNode,
+  ancestors: ElementNode[],
+  scope?: ElementNode,
+): boolean {
+  return list.some(complex =>
+    matchesFrom(complex, complex.length - 1, element, ancestors, ancestors.length, scope),
+  )
+}
+
+/**
+ * Match a complex selector right to left, from its compound at `index`
+ *
+ * @param depth - How many of `ancestors` enclose `element`
+ */
+function matchesFrom(
+  complex: ComplexSelector,
+  index: number,
+  element: ElementNode,
+  ancestors: ElementNode[],
+  depth: number,
+  scope: ElementNode | undefined,
+): boolean {
+  const { combinator, compound } = complex[index]
+  if (!matchesCompound(compound, element, scope)) return false
+  if (index === 0) return true
+
+  if (combinator === '>') {
+    return (
+      depth > 0 &&
+      matchesFrom(complex, index - 1, ancestors[depth - 1], ancestors, depth - 1, scope)
+    )
+  }
+  for (let ancestor = depth - 1; ancestor >= 0; ancestor--) {
+    if (matchesFrom(complex, index - 1, ancestors[ancestor], ancestors, ancestor, scope)) {
+      return true
+    }
+  }
+  return false
+}
+
+function matchesCompound(
+  compound: CompoundSelector,
+  element: ElementNode,
+  scope: ElementNode | undefined,
+): boolean {
+  if (compound.scope && element !== scope) return false
+  if (compound.name !== undefined && !matchesName(compound.name, element)) return false
+
+  for (const id of compound.ids) {
+    if (attributeValue(element, 'id') !== id) return false
+  }
+  if (compound.classes.length) {
+    const value = attributeValue(element, 'class')
+    const classes = typeof value === 'string' ? value.split(/\s+/) : []
+    if (!compound.classes.every(name => classes.includes(name))) return false
+  }
+  for (const attribute of compound.attributes) {
+    if (!matchesAttribute(attribute, element)) return false
+  }
+
+  return compound.has.every(list => {
+    let found = false
+    eachElement(element, (descendant, ancestors) => {
+      found = matchesList(list, descendant, ancestors, element)
+      return found
+    })
+    return found
+  })
+}
+
+/**
+ * Compare a type selector with an element's name, ignoring case for HTML elements
+ */
+function matchesName(name: string, element: ElementNode): boolean {
+  const kind = getElementKind(element)
+  if (kind === 'fragment') return name === 'Fragment'
+  if (kind === 'element') return element.name.toLowerCase() === name.toLowerCase()
+  return element.name === name
+}
+
+function matchesAttribute(
+  { name, operator, value }: AttributeSelector,
+  element: ElementNode,
+): boolean {
+  const actual = attributeValue(element, name)
+  if (actual === undefined) return false
+  if (!operator || value === undefined) return true
+  // An expression's value isn't known until the component renders
+  if (typeof actual !== 'string') return false
+
+  switch (operator) {
+    case '=':
+      return actual === value
+    case '~=':
+      return actual.split(/\s+/).includes(value)
+    case '|=':
+      return actual === value || actual.startsWith(`${value}-`)
+    case '^=':
+      return value !== '' && actual.startsWith(value)
+    case '$=':
+      return value !== '' && actual.endsWith(value)
+    case '*=':
+      return value !== '' && actual.includes(value)
+  }
+}
+
+/**
+ * Look up an attribute or directive (`client:load`) of an element by name
+ *
+ * @returns The value, or undefined if the element has no such attribute
+ */
+function attributeValue(element: ElementNode, name: string): string | ExpressionNode | undefined {
+  for (const attribute of element.attributes) {
+    if (attribute.type !== 'SpreadAttribute' && attribute.name === name) {
+      return attribute.value
+    }
+  }
+  for (const directive of element.directives ?? []) {
+    if (`${directive.namespace}:${directive.name}` === name) {
+      return directive.value
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parse a selector list
+ *
+ * @throws SyntaxError if the selector is invalid or uses unsupported syntax
+ */
+function parseSelector(selector: string): ComplexSelector[] {
+  let current = 0
+
+  function fail(message: string): never {
+    throw new SyntaxError(`Invalid selector "${selector}": ${message}`)
+  }
+
+  function peek(offset = 0): string {
+    return selector[current + offset] ?? ''
+  }
+
+  function skipWhitespace(): boolean {
+    const start = current
+    while (/\s/.test(peek())) current++
+    return current > start
+  }
+
+  function expect(char: string): void {
+    if (peek() !== char) fail(`expected "${char}" at offset ${current}`)
+    current++
+  }
+
+  /**
+   * Read a name, with backslash escapes (`client\:load`)
+   *
+   * @param extra - Characters also allowed unescaped
+   */
+  function readName(extra = ''): string {
+    let name = ''
+    while (current < selector.length) {
+      const char = peek()
+      if (char === '\\' && current + 1 < selector.length) {
+        name += peek(1)
+        current += 2
+      } else if (NAME_CHAR_REGEX.test(char) || char > '\x7f' || extra.includes(char)) {
+        name += char
+        current++
+      } else {
+        break
+      }
+    }
+    if (!name) fail(`expected a name at offset ${current}`)
+    return name
+  }
+
+  /**
+   * Read a type selector; in a component name, a `.` before an uppercase
+   * letter continues the name (`UI.Button`) instead of starting a class
+   */
+  function readTypeName(): string {
+    let name = readName()
+    while (/^[A-Z]/.test(name) && peek() === '.' && /[A-Z]/.test(peek(1))) {
+      current++
+      name += `.${readName()}`
+    }
+    return name
+  }
+
+  function readAttribute(): AttributeSelector {
+    expect('[')
+    skipWhitespace()
+    // Directive names may be written without escaping the colon inside brackets
+    const attribute: AttributeSelector = { name: readName(':') }
+    skipWhitespace()
+
+    if (peek() === '=') {
+      attribute.operator = '='
+      current++
+    } else if ('~|^$*'.includes(peek()) && peek(1) === '=') {
+      attribute.operator = `${peek()}=` as AttributeSelector['operator']
+      current += 2
+    }
+
+    if (attribute.operator) {
+      skipWhitespace()
+      const quote = peek()
+      if (quote === '"' || quote === "'") {
+        const end = selector.indexOf(quote, current + 1)
+        if (end === -1) fail('unterminated string')
+        attribute.value = selector.slice(current + 1, end)
+        current = end + 1
+      } else {
+        attribute.value = readName()
+      }
+      skipWhitespace()
+    }
+
+    expect(']')
+    return attribute
+  }
+
+  /**
+   * Read a compound selector
+   *
+   * @returns The selector, or undefined if there is none at the current position
+   */
+  function readCompound(): CompoundSelector | undefined {
+    const compound: CompoundSelector = { ids: [], classes: [], attributes: [], has: [] }
+    const start = current
+
+    if (peek() === '*') {
+      current++
+    } else if (NAME_CHAR_REGEX.test(peek()) || peek() > '\x7f' || peek() === '\\') {
+      compound.name = readTypeName()
+    }
+
+    while (true) {
+      const char = peek()
+      if (char === '.') {
+        current++
+        compound.classes.push(readName())
+      } else if (char === '#') {
+        current++
+        compound.ids.push(readName())
+      } else if (char === '[') {
+        compound.attributes.push(readAttribute())
+      } else if (char === ':') {
+        current++
+        const pseudo = readName()
+        if (pseudo !== 'has') fail(`:${pseudo} is not supported`)
+        expect('(')
+        compound.has.push(readList(true))
+        expect(')')
+      } else {
+        break
+      }
+    }
+
+    return current > start ? compound : undefined
+  }
+
+  /**
+   * Read a complex selector
+   *
+   * @param relative - Whether the selector is relative to the `:has()` element,
+   * and so may start with a combinator (`:has(> img)`)
+   */
+  function readComplex(relative: boolean): ComplexSelector {
+    const complex: ComplexSelector = []
+    let combinator: ' ' | '>' = ' '
+    skipWhitespace()
+
+    if (relative) {
+      complex.push({
+        combinator,
+        compound: { scope: true, ids: [], classes: [], attributes: [], has: [] },
+      })
+      if (peek() === '>') {
+        combinator = '>'
+        current++
+        skipWhitespace()
+      }
+    }
+
+    while (true) {
+      const compound = readCompound()
+      if (!compound) fail(`expected a selector at offset ${current}`)
+      complex.push({ combinator, compound })
+
+      const spaced = skipWhitespace()
+      const char = peek()
+      if (char === '>') {
+        combinator = '>'
+        current++
+        skipWhitespace()
+      } else if (char === ',' || char === ')' || char === '') {
+        return complex
+      } else if (spaced) {
+        combinator = ' '
+      } else {
+        fail(`unexpected "${char}" at offset ${current}`)
+      }
+    }
+  }
+
+  /**
+   * Read comma-separated selectors, up to the end or a closing `)`
+   */
+  function readList(relative: boolean): ComplexSelector[] {
+    const list = [readComplex(relative)]
+    while (peek() === ',') {
+      current++
+      list.push(readComplex(relative))
+    }
+    return list
+  }
+
+  const list = readList(false)
+  if (current < selector.length) fail(`unexpected "${peek()}" at offset ${current}`)
+  return list
+}
@@ -0,0 +1,104 @@
+/**
+ * Slot analysis
+ *
+ * Finds the slots a component declares with `<slot>` elements, and for
+ * each component call the slot every child is passed to, so slot usage
+ * can be checked without re-reading attributes.
+ *
+ * @module slots
+ */
+
+import type {
+  AstroNode,
+  ElementNode,
+  ExpressionNode,
+  SlotAnalysis,
+  SlotAssignment,
+  SlotDefinition,
+} from './ast.js'
+import { getElementKind } from './ast.js'
+import { walk } from './utils.js'
+
+/**
+ * The name of the slot that receives content without a slot name
+ */
+const DEFAULT_SLOT = 'default'
+
+/**
+ * Collect slot definitions and slot assignments from an AST
+ *
+ * A child with `slot="name"` fills that slot of the component it is passed
+ * to; any other child fills the default slot. Whitespace-only text and
+ * comments between a component's children are not content and are skipped.
+ *
+ * @param ast - The AST (or subtree) to analyze
+ * @returns The slot definitions and assignments, each in source order
+ *
+ * @example
+ * ```typescript
+ * const { definitions } = analyzeSlots(parse('<slot name="header">Untitled</slot>'))
+ * definitions[0].name // 'header'
+ * definitions[0].fallback // [{ type: 'Text', value: 'Untitled', ... }]
+ * ```
+ */
+export function analyzeSlots(ast: AstroNode): SlotAnalysis {
+  const definitions: SlotDefinition[] = []
+  const assignments: SlotAssignment[] = []
+
+  walk(ast, node => {
+    if (node.type !== 'Element') return
+
+    if (getElementKind(node) === 'element' && node.name === 'slot') {
+      const definition: SlotDefinition = {
+        name: slotName(node, 'name'),
+        fallback: node.children,
+        node,
+      }
+      if (node.position) {
+        definition.position = node.position
+      }
+      definitions.push(definition)
+    }
+
+    if (getElementKind(node) === 'component') {
+      for (const child of node.children) {
+        if (!isContent(child)) continue
+        const assignment: SlotAssignment = {
+          component: node,
+          slot: child.type === 'Element' ? slotName(child, 'slot') : DEFAULT_SLOT,
+          node: child,
+        }
+        if (child.position) {
+          assignment.position = child.position
+        }
+        assignments.push(assignment)
+      }
+    }
+  })
+
+  return { definitions, assignments }
+}
+
+/**
+ * Read a slot name from an element attribute, falling back to the default slot
+ *
+ * @param node - The element carrying the attribute
+ * @param attributeName - `name` on `<slot>`, `slot` on a slotted child
+ */
+function slotName(node: ElementNode, attributeName: string): string | ExpressionNode {
+  for (const attribute of node.attributes) {
+    if (attribute.type === 'ShorthandAttribute' || attribute.type === 'SpreadAttribute') continue
+    if (attribute.name === attributeName) {
+      return attribute.value || DEFAULT_SLOT
+    }
+  }
+  return DEFAULT_SLOT
+}
+
+/**
+ * Whether a child of a component is content passed to one of its slots
+ */
+function isContent(node: AstroNode): boolean {
+  if (node.type === 'Comment') return false
+  return node.type !== 'Text' || node.value.trim() !== ''
+}
@@ -0,0 +1,184 @@
+/**
+ * AST transformation
+ *
+ * A walk that may change the tree as it goes: a visitor can replace the
+ * node it is given, remove it or insert siblings next to it, and the
+ * traversal carries on over the original nodes that come after.
+ *
+ * @module transform
+ */
+
+import type { AstroNode, ExpressionNode } from './ast.js'
+
+/**
+ * What a transform visitor knows about the node it is given, and what it can do to it
+ */
+export interface TransformContext {
+  /** The node the current node belongs to; undefined for the root */
+  parent?: AstroNode
+  /**
+   * The node's position in `parent.children`; undefined for the root and for
+   * an expression used as an attribute or directive value
+   */
+  index?: number
+  /** Remove the node (its children are not visited) */
+  remove(): void
+  /** Insert nodes just before the node */
+  insertBefore(...nodes: AstroNode[]): void
+  /** Insert nodes just after the node */
+  insertAfter(...nodes: AstroNode[]): void
+}
+
+/**
+ * Transform visitor, called for each node before its children
+ *
+ * Returning nothing (or the node itself) keeps the node and goes on into its
+ * children. Returning another node or an array of nodes puts them in the
+ * node's place; an empty array removes it.
+ */
+export type TransformVisitor = (
+  node: AstroNode,
+  context: TransformContext,
+) => AstroNode | AstroNode[] | undefined
+
+/**
+ * Walk the AST in the same order as `walk`, letting the visitor change it
+ *
+ * The tree is changed in place. Nodes the visitor adds (replacements and
+ * inserted siblings) are not visited, so a replacement may contain the node
+ * it replaces without being transformed again. Only nodes in a `children`
+ * list can be removed, have siblings inserted or be replaced by several
+ * nodes; an attribute or directive value can only be replaced by another
+ * expression, and the root can't be changed.
+ *
+ * @param ast - The root node of the AST to transform
+ * @param visitor - Called for each node of the original tree
+ * @returns The root node, for chaining
+ * @throws Error if the visitor makes a change the node's position doesn't allow
+ *
+ * @example
+ * ```typescript
+ * transform(ast, (node, { insertAfter }) => {
+ *   if (!is.element(node)) return
+ *   if (node.name === 'img') {
+ *     // The <img> inside the new <picture> is not visited again
+ *     return { ...picture, children: [...sources, node] }
+ *   }
+ *   if (node.name === 'main') {
+ *     insertAfter(analyticsScript)
+ *   }
+ * })
+ * ```
+ */
+export function transform<T extends AstroNode>(ast: T, visitor: TransformVisitor): T {
+  /**
+   * Visit the node at `index` of a children list, applying the visitor's changes
+   *
+   * @returns The index of the next original node in the list
+   */
+  function visitChild(parent: AstroNode, list: AstroNode[], index: number): number {
+    const node = list[index]
+    const before: AstroNode[] = []
+    const after: AstroNode[] = []
+    let removed = false
+
+    const result = visitor(node, {
+      parent,
+      index,
+      remove() {
+        removed = true
+      },
+      insertBefore(...nodes) {
+        before.push(...nodes)
+      },
+      insertAfter(...nodes) {
+        after.push(...nodes)
+      },
+    })
+
+    let replacement: AstroNode[]
+    if (removed) {
+      replacement = []
+    } else if (result === undefined || result === node) {
+      traverse(node)
+      replacement = [node]
+    } else {
+      replacement = Array.isArray(result) ? result : [result]
+    }
+
+    if (before.length || after.length || replacement[0] !== node || replacement.length !== 1) {
+      list.splice(index, 1, ...before, ...replacement, ...after)
+    }
+    return index + before.length + replacement.length + after.length
+  }
+
+  /**
+   * Visit a node that is not in a children list (the root or an attribute value)
+   *
+   * @returns The node to keep in that position
+   */
+  function visitSingle<N extends AstroNode>(
+    node: N,
+    parent: AstroNode | undefined,
+    accepts: (replacement: AstroNode) => replacement is N,
+  ): N {
+    const where = parent ? 'an attribute or directive value' : 'the root node'
+    const unsupported = (change: string) => () => {
+      throw new Error(`Can't ${change} ${where}`)
+    }
+
+    const result = visitor(node, {
+      parent,
+      remove: unsupported('remove'),
+      insertBefore: unsupported('insert siblings next to'),
+      insertAfter: unsupported('insert siblings next to'),
+    })
+
+    if (result === undefined || result === node) {
+      traverse(node)
+      return node
+    }
+    if (Array.isArray(result) || !accepts(result)) {
+      throw new Error(`Can't replace ${where} with ${describe(result)}`)
+    }
+    return result
+  }
+
+  /**
+   * Visit the children and expression values of a kept node
+   */
+  function traverse(node: AstroNode): void {
+    if ('children' in node && Array.isArray(node.children)) {
+      const children: AstroNode[] = node.children
+      for (let index = 0; index < children.length; ) {
+        index = visitChild(node, children, index)
+      }
+    }
+
+    if (node.type === 'Element') {
+      for (const attribute of node.attributes) {
+        if (typeof attribute.value === 'object') {
+          attribute.value = visitSingle(attribute.value, node, isExpression)
+        }
+      }
+      for (const directive of node.directives ?? []) {
+        if (typeof directive.value === 'object') {
+          directive.value = visitSingle(directive.value, node, isExpression)
+        }
+      }
+    }
+  }
+
+  return visitSingle(ast, undefined, (replacement): replacement is T => replacement === ast)
+}
+
+function isExpression(node: AstroNode): node is ExpressionNode {
+  return node.type === 'Expression'
+}
+
+/**
+ * Describe a visitor result for error messages
+ */
+function describe(result: AstroNode | AstroNode[]): string {
+  return Array.isArray(result) ? `${result.length} nodes` : `a ${result.type} node`
+}
@@ -1,4 +1,13 @@
-import type { AstroAST, AstroNode, ElementNode } from './ast.js'
+import type {
+  AstroAST,
+  AstroNode,
+  CommentNode,
+  Directive,
+  DoctypeNode,
+  ElementAttribute,
+  ElementNode,
+  ExpressionNode,
+} from './ast.js'
 
 /**
  * Walk handler function type for visiting AST nodes
@@ -20,11 +29,90 @@ export type AsyncWalkHandler = (
   index?: number,
 ) => Promise<void>
 
+/**
+ * What holds a node visited by a `Visitor`: another node, or for an
+ * expression used as a value, the attribute or directive it is the value of
+ */
+export type VisitorParent = AstroNode | ElementAttribute | Directive
+
+/**
+ * Controls available as `this` inside `Visitor` callbacks
+ */
+export interface VisitorContext {
+  /** Don't visit the node's children (or call its `leave`); only meaningful in `enter` */
+  skip(): void
+  /** Remove the node from its parent */
+  remove(): void
+  /** Put another node in the node's place; from `enter`, its children are visited instead */
+  replace(node: AstroNode): void
+  /** End the walk; no further callbacks are made */
+  stop(): void
+}
+
+/**
+ * A `Visitor` callback
+ *
+ * @param node - The node being visited
+ * @param parent - What holds the node, or null for the root
+ * @param key - The property of `parent` holding the node, or null for the root
+ * @param index - The node's index in `parent.children`, or null if it is not in a list
+ */
+export type VisitorHandler<N extends AstroNode = AstroNode> = (
+  this: VisitorContext,
+  node: N,
+  parent: VisitorParent | null,
+  key: 'children' | 'value' | null,
+  index: number | null,
+) => void
+
+/**
+ * Callbacks for `walk`, in the style of `estree-walker`
+ *
+ * `enter` is called for every node before its children and `leave` after
+ * them. A callback named after a node type (`Element`, `Expression`, ...)
+ * is called for nodes of that type, right after `enter`.
+ */
+export type Visitor = {
+  enter?: VisitorHandler
+  leave?: VisitorHandler
+} & {
+  [T in AstroNode['type']]?: VisitorHandler<Extract<AstroNode, { type: T }>>
+}
+
+/**
+ * An `AsyncVisitor` callback: a `VisitorHandler` that may return a promise
+ */
+export type AsyncVisitorHandler<N extends AstroNode = AstroNode> = (
+  this: VisitorContext,
+  node: N,
+  parent: VisitorParent | null,
+  key: 'children' | 'value' | null,
+  index: number | null,
+) => void | Promise<void>
+
+/**
+ * Callbacks for `walkAsync`, like a `Visitor` but able to wait for async work
+ */
+export type AsyncVisitor = {
+  enter?: AsyncVisitorHandler
+  leave?: AsyncVisitorHandler
+} & {
+  [T in AstroNode['type']]?: AsyncVisitorHandler<Extract<AstroNode, { type: T }>>
+}
+
 /**
  * Walk through the AST synchronously and execute a handler function for each node
  *
+ * Given a `Visitor` instead of a handler, the walk calls `enter`, `leave`
+ * and type-keyed callbacks, which can skip, remove or replace nodes or stop
+ * the walk. Nodes are then visited in source order: an element's attribute
+ * and directive values come before its children.
+ *
  * @param ast - The root node of the AST to traverse
- * @param handler - Handler function to execute for each node
+ * @param handler - Handler function to execute for each node, or a visitor
+ * @returns With a visitor, the root node (or its replacement), or null if it was removed
+ * @throws Error if a visitor removes an attribute or directive value, or replaces one with
+ * something other than an expression
  *
  * @example
  * ```typescript
@@ -33,11 +121,27 @@ export type AsyncWalkHandler = (
  *     console.log(node.name);
  *   }
  * });
+ *
+ * walk(ast, {
+ *   Element(node) {
+ *     if (node.kind === 'component') this.skip();
+ *   },
+ *   Expression(node, parent) {
+ *     console.log(node.value, parent?.type); // 'url' 'Attribute'
+ *   },
+ * });
  * ```
  */
-export function walk(ast: AstroNode, handler: WalkHandler): void {
+export function walk(ast: AstroNode, handler: WalkHandler): void
+export function walk(ast: AstroNode, visitor: Visitor): AstroNode | null
+export function walk(ast: AstroNode, handler: WalkHandler | Visitor): AstroNode | null | undefined {
+  if (typeof handler === 'object') {
+    return walkVisitor(ast, handler)
+  }
+  const callback = handler
+
   function traverse(node: AstroNode, parent?: AstroNode, prop?: string, index?: number): void {
-    handler(node, parent, prop, index)
+    callback(node, parent, prop, index)
 
     // Traverse child nodes
     if ('children' in node && Array.isArray(node.children)) {
@@ -46,24 +150,194 @@ export function walk(ast: AstroNode, handler: WalkHandler): void {
       })
     }
 
-    // Traverse Expression nodes within attributes
+    // Traverse Expression nodes within attributes and directives
     if (node.type === 'Element' && node.attributes) {
       node.attributes.forEach((attr, idx) => {
         if (typeof attr.value === 'object' && attr.value.type === 'Expression') {
           traverse(attr.value, node, `attributes[${idx}].value`, idx)
         }
       })
+      node.directives?.forEach((directive, idx) => {
+        if (typeof directive.value === 'object') {
+          traverse(directive.value, node, `directives[${idx}].value`, idx)
+        }
+      })
     }
   }
 
   traverse(ast)
+  return undefined
+}
+
+/**
+ * What the callbacks for the node being visited asked for through `this`
+ */
+interface VisitorRequests {
+  skipped: boolean
+  removed: boolean
+  replacement: AstroNode | null
+  stopped: boolean
+}
+
+/**
+ * The `this` of visitor callbacks, recording what they ask for in `requests`
+ */
+function createVisitorContext(requests: VisitorRequests): VisitorContext {
+  return {
+    skip() {
+      requests.skipped = true
+    },
+    remove() {
+      requests.removed = true
+    },
+    replace(node) {
+      requests.replacement = node
+    },
+    stop() {
+      requests.stopped = true
+    },
+  }
+}
+
+/**
+ * Whether a callback asked for something that ends the callbacks for its node
+ */
+function hasRequest(requests: VisitorRequests): boolean {
+  return requests.skipped || requests.removed || !!requests.replacement || requests.stopped
+}
+
+/**
+ * Carry out the removal or replacement the callbacks for a node asked for
+ *
+ * @returns The node now in the visited position, or null if it was removed
+ */
+function applyRequests(
+  requests: VisitorRequests,
+  node: AstroNode,
+  parent: VisitorParent | null,
+  key: 'children' | 'value' | null,
+  index: number | null,
+): AstroNode | null {
+  if (requests.removed) {
+    if (parent && key === 'value') {
+      throw new Error("Can't remove an attribute or directive value")
+    }
+    if (parent && index !== null) {
+      ;(parent as { children: AstroNode[] }).children.splice(index, 1)
+    }
+    return null
+  }
+  const next = requests.replacement
+  if (next) {
+    if (parent && key === 'value') {
+      if (next.type !== 'Expression') {
+        throw new Error(`Can't replace an attribute or directive value with a ${next.type} node`)
+      }
+      ;(parent as { value: ExpressionNode }).value = next
+    } else if (parent && index !== null) {
+      ;(parent as { children: AstroNode[] }).children[index] = next
+    }
+    return next
+  }
+  return node
+}
+
+/**
+ * The expressions held by an element's attributes and directives, with what holds each
+ */
+function valueHolders(node: ElementNode): (ElementAttribute | Directive)[] {
+  return [...node.attributes, ...(node.directives ?? [])].filter(
+    holder => typeof holder.value === 'object',
+  )
+}
+
+/**
+ * Walk the AST with a `Visitor`
+ *
+ * @param ast - The root node of the AST to traverse
+ * @param visitor - The callbacks to call
+ * @returns The root node (or its replacement), or null if it was removed
+ */
+function walkVisitor(ast: AstroNode, visitor: Visitor): AstroNode | null {
+  const requests: VisitorRequests = {
+    skipped: false,
+    removed: false,
+    replacement: null,
+    stopped: false,
+  }
+  const context = createVisitorContext(requests)
+
+  /**
+   * Call the handlers in turn, stopping at the first that changes something
+   *
+   * @returns The node now in the visited position, or null if it was removed
+   */
+  function call(
+    handlers: (VisitorHandler | undefined)[],
+    node: AstroNode,
+    parent: VisitorParent | null,
+    key: 'children' | 'value' | null,
+    index: number | null,
+  ): AstroNode | null {
+    requests.skipped = false
+    requests.removed = false
+    requests.replacement = null
+    for (const handler of handlers) {
+      handler?.call(context, node, parent, key, index)
+      if (hasRequest(requests)) break
+    }
+    return applyRequests(requests, node, parent, key, index)
+  }
+
+  /**
+   * Visit a node and everything below it
+   *
+   * @returns The node now in the visited position, or null if it was removed
+   */
+  function visit(
+    node: AstroNode,
+    parent: VisitorParent | null,
+    key: 'children' | 'value' | null,
+    index: number | null,
+  ): AstroNode | null {
+    const typed = visitor[node.type] as VisitorHandler | undefined
+    const current = call([visitor.enter, typed], node, parent, key, index)
+    if (!current || requests.skipped || requests.stopped) return current
+
+    if (current.type === 'Element') {
+      for (const holder of valueHolders(current)) {
+        visit(holder.value as ExpressionNode, holder, 'value', null)
+        if (requests.stopped) return current
+      }
+    }
+
+    if ('children' in current && Array.isArray(current.children)) {
+      const children: AstroNode[] = current.children
+      for (let childIndex = 0; childIndex < children.length; ) {
+        const child = visit(children[childIndex], current, 'children', childIndex)
+        if (requests.stopped) return current
+        // A removed child's place is taken by its next sibling
+        if (child) childIndex++
+      }
+    }
+
+    return call([visitor.leave], current, parent, key, index)
+  }
+
+  return visit(ast, null, null, null)
 }
 
 /**
  * Walk through the AST asynchronously and execute a handler function for each node
  *
+ * Given an `AsyncVisitor`, the walk works as `walk` does with a `Visitor`,
+ * waiting for each callback before going on to the next node.
+ *
  * @param ast - The root node of the AST to traverse
- * @param handler - Async handler function to execute for each node
+ * @param handler - Async handler function to execute for each node, or a visitor
+ * @returns With a visitor, the root node (or its replacement), or null if it was removed
+ * @throws Error if a visitor removes an attribute or directive value, or replaces one with
+ * something other than an expression
  *
  * @example
  * ```typescript
@@ -72,16 +346,32 @@ export function walk(ast: AstroNode, handler: WalkHandler): void {
  *     node.value = await expensiveCalculation(node);
  *   }
  * });
+ *
+ * await walkAsync(ast, {
+ *   async Element(node) {
+ *     if (!(await isAllowed(node.name))) this.remove();
+ *   },
+ * });
  * ```
  */
-export async function walkAsync(ast: AstroNode, handler: AsyncWalkHandler): Promise<void> {
+export function walkAsync(ast: AstroNode, handler: AsyncWalkHandler): Promise<void>
+export function walkAsync(ast: AstroNode, visitor: AsyncVisitor): Promise<AstroNode | null>
+export async function walkAsync(
+  ast: AstroNode,
+  handler: AsyncWalkHandler | AsyncVisitor,
+): Promise<unknown> {
+  if (typeof handler === 'object') {
+    return walkVisitorAsync(ast, handler)
+  }
+  const callback = handler
+
   async function traverse(
     node: AstroNode,
     parent?: AstroNode,
     prop?: string,
     index?: number,
   ): Promise<void> {
-    await handler(node, parent, prop, index)
+    await callback(node, parent, prop, index)
 
     // Traverse child nodes
     if ('children' in node && Array.isArray(node.children)) {
@@ -90,7 +380,7 @@ export async function walkAsync(ast: AstroNode, handler: AsyncWalkHandler): Prom
       }
     }
 
-    // Traverse Expression nodes within attributes
+    // Traverse Expression nodes within attributes and directives
     if (node.type === 'Element' && node.attributes) {
       for (let idx = 0; idx < node.attributes.length; idx++) {
         const attr = node.attributes[idx]
@@ -98,12 +388,81 @@ export async function walkAsync(ast: AstroNode, handler: AsyncWalkHandler): Prom
           await traverse(attr.value, node, `attributes[${idx}].value`, idx)
         }
       }
+      const directives = node.directives ?? []
+      for (let idx = 0; idx < directives.length; idx++) {
+        const directive = directives[idx]
+        if (typeof directive.value === 'object') {
+          await traverse(directive.value, node, `directives[${idx}].value`, idx)
+        }
+      }
     }
   }
 
   await traverse(ast)
 }
 
+/**
+ * Walk the AST with an `AsyncVisitor`, like `walkVisitor`
+ */
+async function walkVisitorAsync(ast: AstroNode, visitor: AsyncVisitor): Promise<AstroNode | null> {
+  const requests: VisitorRequests = {
+    skipped: false,
+    removed: false,
+    replacement: null,
+    stopped: false,
+  }
+  const context = createVisitorContext(requests)
+
+  async function call(
+    handlers: (AsyncVisitorHandler | undefined)[],
+    node: AstroNode,
+    parent: VisitorParent | null,
+    key: 'children' | 'value' | null,
+    index: number | null,
+  ): Promise<AstroNode | null> {
+    requests.skipped = false
+    requests.removed = false
+    requests.replacement = null
+    for (const handler of handlers) {
+      await handler?.call(context, node, parent, key, index)
+      if (hasRequest(requests)) break
+    }
+    return applyRequests(requests, node, parent, key, index)
+  }
+
+  async function visit(
+    node: AstroNode,
+    parent: VisitorParent | null,
+    key: 'children' | 'value' | null,
+    index: number | null,
+  ): Promise<AstroNode | null> {
+    const typed = visitor[node.type] as AsyncVisitorHandler | undefined
+    const current = await call([visitor.enter, typed], node, parent, key, index)
+    if (!current || requests.skipped || requests.stopped) return current
+
+    if (current.type === 'Element') {
+      for (const holder of valueHolders(current)) {
+        await visit(holder.value as ExpressionNode, holder, 'value', null)
+        if (requests.stopped) return current
+      }
+    }
+
+    if ('children' in current && Array.isArray(current.children)) {
+      const children: AstroNode[] = current.children
+      for (let childIndex = 0; childIndex < children.length; ) {
+        const child = await visit(children[childIndex], current, 'children', childIndex)
+        if (requests.stopped) return current
+        // A removed child's place is taken by its next sibling
+        if (child) childIndex++
+      }
+    }
+
+    return call([visitor.leave], current, parent, key, index)
+  }
+
+  return visit(ast, null, null, null)
+}
+
 /**
  * Type guard helpers for node type checking
  *
@@ -184,6 +543,40 @@ export const is = {
     return node.type === 'Expression'
   },
 
+  /**
+   * Check if a node is a comment node
+   *
+   * @param node - The AST node to check
+   * @returns True if the node is a CommentNode
+   *
+   * @example
+   * ```typescript
+   * if (is.comment(node)) {
+   *   console.log(node.value); // Access comment text
+   * }
+   * ```
+   */
+  comment(node: AstroNode): node is CommentNode {
+    return node.type === 'Comment'
+  },
+
+  /**
+   * Check if a node is a doctype node
+   *
+   * @param node - The AST node to check
+   * @returns True if the node is a DoctypeNode
+   *
+   * @example
+   * ```typescript
+   * if (is.doctype(node)) {
+   *   console.log(node.value); // e.g. 'html'
+   * }
+   * ```
+   */
+  doctype(node: AstroNode): node is DoctypeNode {
+    return node.type === 'Doctype'
+  },
+
   /**
    * Check if a node is a frontmatter node
    *
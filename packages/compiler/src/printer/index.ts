@@ -0,0 +1,10 @@
+/**
+ * Printer module exports
+ *
+ * Regenerates .astro source from an AST, as it is or pretty-printed.
+ *
+ * @module printer
+ */
+
+export { print } from './printer.js'
+export type { PrintOptions } from './printer.js'
@@ -0,0 +1,410 @@
+/**
+ * AST to .astro source printing
+ *
+ * Turns an AST back into `.astro` source: frontmatter, expressions,
+ * directives and self-closing tags come out as they would be written by
+ * hand. Text and attribute values are kept as written in the source.
+ *
+ * @module printer
+ */
+
+import type {
+  AstroNode,
+  Attribute,
+  Directive,
+  ElementAttribute,
+  ElementNode,
+  ExpressionNode,
+} from '../parser/ast.js'
+import { getElementKind } from '../parser/ast.js'
+
+/**
+ * Options that control printing
+ */
+export interface PrintOptions {
+  /**
+   * Pretty-print instead of reproducing the tree as it is: one block-level
+   * node per line, indented by nesting, with attributes moved onto their
+   * own lines when a tag is too long and long text wrapped at spaces. Runs
+   * of whitespace in text collapse to one space, as they do when a browser
+   * renders them; `<pre>`, `<textarea>`, `<script>`, `<style>`, `is:raw`
+   * elements and expressions are kept exactly as they are. Parse with
+   * `preserveWhitespace: true` so that the spaces between inline elements
+   * and text survive.
+   */
+  format?: boolean
+  /** One level of indentation when formatting (default: two spaces) */
+  indent?: string
+  /** The line width formatting tries to stay within (default: 80) */
+  lineWidth?: number
+}
+
+/**
+ * Elements that never have content or an end tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+/**
+ * Elements whose content formatting must not touch
+ */
+const PRESERVED_CONTENT_ELEMENTS = new Set(['pre', 'textarea', 'script', 'style'])
+
+/**
+ * Elements that flow with the text around them, and so stay on its line when formatting
+ */
+const INLINE_ELEMENTS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'br',
+  'button',
+  'cite',
+  'code',
+  'data',
+  'dfn',
+  'em',
+  'i',
+  'img',
+  'input',
+  'kbd',
+  'label',
+  'mark',
+  'q',
+  's',
+  'samp',
+  'select',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+  'var',
+  'wbr',
+])
+
+/**
+ * Print an AST (or any node of one) as .astro source
+ *
+ * Without `format`, the nodes are printed next to each other exactly as the
+ * tree has them, so parsing with `preserveWhitespace: true` and printing
+ * gives back the frontmatter, text and comments as written. The tree
+ * doesn't keep how tags were laid out, so those are normalized:
+ *
+ * - attributes are separated by one space, so line breaks and extra spaces
+ *   inside a tag are lost, and a self-closing tag gets one space before `/>`
+ * - attribute values are double-quoted unless they were unquoted or contain `"`
+ * - every element that isn't void or self-closing gets an end tag, including
+ *   those the source left implicit (`<li>a<li>b`), written like its start tag
+ * - whitespace just inside an expression's braces is dropped
+ *
+ * @param ast - The AST or node to print
+ * @param options - Printer options
+ * @returns The .astro source
+ *
+ * @example
+ * ```typescript
+ * print(parse('<Counter client:load count={1}/>'))
+ * // '<Counter client:load count={1} />'
+ *
+ * print(parse('<ul><li>One</li><li>Two</li></ul>'), { format: true, lineWidth: 20 })
+ * // '<ul>\n  <li>One</li>\n  <li>Two</li>\n</ul>\n'
+ * ```
+ */
+export function print(ast: AstroNode, options: PrintOptions = {}): string {
+  if (!options.format) {
+    return printNode(ast)
+  }
+  const { indent = '  ', lineWidth = 80 } = options
+  const lines = formatNode(ast, 0, { indent, lineWidth })
+  return lines.length ? `${lines.join('\n')}\n` : ''
+}
+
+/**
+ * Print a node as it is
+ */
+function printNode(node: AstroNode): string {
+  switch (node.type) {
+    case 'Program':
+      return node.children
+        .map((child, index) => {
+          // The markup starts on the line after the frontmatter fence; a
+          // template parsed with its whitespace already starts with that line break
+          const next = printNode(child)
+          const previous = node.children[index - 1]
+          return previous?.type === 'Frontmatter' && !/^\r?\n/.test(next) ? `\n${next}` : next
+        })
+        .join('')
+    case 'Template':
+      return node.children.map(printNode).join('')
+    case 'Frontmatter':
+      return node.value ? `---\n${node.value}\n---` : '---\n---'
+    case 'Element':
+      return printElement(node, printNode)
+    case 'Text':
+      return node.value
+    case 'Expression':
+      return printExpression(node)
+    case 'Comment':
+      return `<!--${node.value}-->`
+    case 'Doctype':
+      return node.raw ?? `<!DOCTYPE ${node.value}>`
+    case 'ProcessingInstruction':
+      return `<?${node.value}?>`
+  }
+}
+
+/**
+ * Print an element, printing its children with `printChild`
+ */
+function printElement(node: ElementNode, printChild: (child: AstroNode) => string): string {
+  const openTag = printOpenTag(node, printAttributes(node).join(''))
+  if (node.selfClosing || (isVoid(node) && !node.children.length)) {
+    return openTag
+  }
+  return `${openTag}${node.children.map(printChild).join('')}</${node.name}>`
+}
+
+/**
+ * Print a start tag around already printed attributes (each with its leading separator)
+ */
+function printOpenTag(node: ElementNode, attributes: string): string {
+  if (node.selfClosing) return `<${node.name}${attributes} />`
+  return `<${node.name}${attributes}>`
+}
+
+/**
+ * Print an element's attributes and directives, each with a leading space
+ *
+ * Attributes and directives are kept apart in the tree; when their
+ * positions are known they are put back in source order.
+ */
+function printAttributes(node: ElementNode): string[] {
+  const items: (ElementAttribute | Directive)[] = [...node.attributes, ...(node.directives ?? [])]
+  if (items.every(item => item.position)) {
+    items.sort((a, b) => (a.position?.start.offset ?? 0) - (b.position?.start.offset ?? 0))
+  }
+  return items.map(item => ` ${printAttribute(item)}`)
+}
+
+function printAttribute(item: ElementAttribute | Directive): string {
+  if (item.type === 'ShorthandAttribute') return `{${item.value.value}}`
+  if (item.type === 'SpreadAttribute') return `{...${item.value.value}}`
+
+  const name = item.type === 'Directive' ? `${item.namespace}:${item.name}` : item.name
+  const { value } = item
+  const kind: Attribute['kind'] = item.kind ?? (typeof value === 'string' ? 'quoted' : 'expression')
+
+  if (typeof value === 'object') {
+    // A template literal's code includes its backticks
+    return kind === 'template-literal' ? `${name}=${value.value}` : `${name}={${value.value}}`
+  }
+  if (kind === 'empty' && !value) return name
+  if (kind === 'unquoted' && value && !/[\s"'=<>`]/.test(value)) return `${name}=${value}`
+  return value.includes('"') ? `${name}='${value}'` : `${name}="${value}"`
+}
+
+/**
+ * Print an expression, taking the markup inside it from its children
+ */
+function printExpression(node: ExpressionNode): string {
+  const code = node.children ? node.children.map(printNode).join('') : node.value
+  return `{${code}}`
+}
+
+function isVoid(node: ElementNode): boolean {
+  return getElementKind(node) === 'element' && VOID_ELEMENTS.has(node.name.toLowerCase())
+}
+
+/**
+ * Whether formatting must print an element's content exactly as it is
+ */
+function hasPreservedContent(node: ElementNode): boolean {
+  return (
+    PRESERVED_CONTENT_ELEMENTS.has(node.name.toLowerCase()) ||
+    !!node.directives?.some(directive => directive.namespace === 'is' && directive.name === 'raw')
+  )
+}
+
+/**
+ * Whether formatting keeps a node on the line of the text around it
+ */
+function isInline(node: AstroNode): boolean {
+  if (node.type === 'Text' || node.type === 'Expression') return true
+  return (
+    node.type === 'Element' && getElementKind(node) === 'element' && INLINE_ELEMENTS.has(node.name)
+  )
+}
+
+/**
+ * Layout settings, with defaults applied
+ */
+interface FormatSettings {
+  indent: string
+  lineWidth: number
+}
+
+/**
+ * Format a node as indented lines
+ *
+ * @param level - How deeply the node is nested
+ */
+function formatNode(node: AstroNode, level: number, settings: FormatSettings): string[] {
+  const prefix = settings.indent.repeat(level)
+
+  switch (node.type) {
+    case 'Program': {
+      const lines: string[] = []
+      for (const child of node.children) {
+        const childLines = formatNode(child, level, settings)
+        // A blank line between the frontmatter and the markup
+        if (lines.length && childLines.length && child.type === 'Template') lines.push('')
+        lines.push(...childLines)
+      }
+      return lines
+    }
+    case 'Template':
+      return formatChildren(node.children, level, settings)
+    case 'Frontmatter':
+      return [`${prefix}---`, ...(node.value ? [node.value] : []), `${prefix}---`]
+    case 'Element':
+      return formatElement(node, level, settings)
+    default: {
+      const text = printFlat(node)
+      return text ? [prefix + text] : []
+    }
+  }
+}
+
+/**
+ * Format a list of children, one block-level node per line and each run of
+ * inline nodes on lines of its own, wrapped at spaces in its text
+ */
+function formatChildren(children: AstroNode[], level: number, settings: FormatSettings): string[] {
+  const lines: string[] = []
+  let run: string[] = []
+
+  const endRun = () => {
+    lines.push(...fillLine(run, level, settings))
+    run = []
+  }
+
+  for (const child of children) {
+    if (!isInline(child)) {
+      endRun()
+      lines.push(...formatNode(child, level, settings))
+    } else if (child.type === 'Text') {
+      // Keep every space as its own word so the run can break there
+      run.push(...printFlat(child).split(/( )/))
+    } else {
+      run.push(printFlat(child))
+    }
+  }
+  endRun()
+
+  return lines
+}
+
+/**
+ * Lay out the words of an inline run, breaking at spaces to stay within the line width
+ *
+ * Words that can't be broken, such as an element or an expression, go on a
+ * line of their own when they don't fit, even if that line is too long.
+ */
+function fillLine(words: string[], level: number, settings: FormatSettings): string[] {
+  const prefix = settings.indent.repeat(level)
+  const lines: string[] = []
+  let line = ''
+
+  const endLine = () => {
+    const text = line.trim()
+    if (text) lines.push(...(prefix + text).split('\n'))
+    line = ''
+  }
+
+  for (const word of words) {
+    if (word === ' ') {
+      line += word
+    } else if (
+      word &&
+      line.trim() &&
+      line.endsWith(' ') &&
+      prefix.length + line.trimEnd().length + 1 + word.length > settings.lineWidth
+    ) {
+      endLine()
+      line = word
+    } else {
+      line += word
+    }
+  }
+  endLine()
+
+  return lines
+}
+
+/**
+ * Format an element: on one line if it fits and has only inline children, otherwise with its children
+ * (and if need be its attributes) on lines of their own
+ */
+function formatElement(node: ElementNode, level: number, settings: FormatSettings): string[] {
+  const prefix = settings.indent.repeat(level)
+
+  if (hasPreservedContent(node)) {
+    return (prefix + printNode(node)).split('\n')
+  }
+  // Block-level children always go on lines of their own
+  if (node.children.every(isInline)) {
+    const flat = printFlat(node)
+    if (!flat.includes('\n') && prefix.length + flat.length <= settings.lineWidth) {
+      return [prefix + flat]
+    }
+  }
+
+  const attributes = printAttributes(node)
+  let openTag = prefix + printOpenTag(node, attributes.join(''))
+  if (openTag.length > settings.lineWidth && attributes.length) {
+    const attributePrefix = `\n${prefix}${settings.indent}`
+    const close = node.selfClosing ? '/>' : '>'
+    openTag = `${prefix}<${node.name}${attributes.map(attribute => attributePrefix + attribute.trimStart()).join('')}\n${prefix}${close}`
+  }
+
+  if (node.selfClosing || (isVoid(node) && !node.children.length)) {
+    return openTag.split('\n')
+  }
+
+  const children = formatChildren(node.children, level + 1, settings)
+  return [...openTag.split('\n'), ...children, `${prefix}</${node.name}>`]
+}
+
+/**
+ * Print a node on one line as formatting does, with whitespace in text collapsed
+ *
+ * Content that formatting keeps as it is may still span several lines.
+ */
+function printFlat(node: AstroNode): string {
+  switch (node.type) {
+    case 'Text':
+      return node.raw ? node.value : node.value.replace(/\s+/g, ' ')
+    case 'Element':
+      return hasPreservedContent(node) ? printNode(node) : printElement(node, printFlat)
+    default:
+      return printNode(node)
+  }
+}
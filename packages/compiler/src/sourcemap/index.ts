@@ -0,0 +1,11 @@
+/**
+ * Source map module exports
+ *
+ * Tracks where generated output came from in the .astro source and encodes
+ * it as a v3 source map.
+ *
+ * @module sourcemap
+ */
+
+export { createMappedOutput } from './source-map.js'
+export type { MappedOutput, SourceMap, SourceMapOptions } from './source-map.js'
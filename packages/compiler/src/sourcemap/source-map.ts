@@ -0,0 +1,202 @@
+/**
+ * Source map generation
+ *
+ * Collects generated output together with where each piece of it came
+ * from in the .astro source, and encodes that as a standard (v3) source
+ * map. Anything that generates code from the AST, such as the HTML
+ * builder, writes its output through a `MappedOutput`.
+ *
+ * @module source-map
+ */
+
+import type { Point } from '../tokenizer/types.js'
+
+/**
+ * A source map in the standard v3 format, ready for `JSON.stringify`
+ *
+ * @see https://tc39.es/ecma426/
+ */
+export interface SourceMap {
+  version: 3
+  /** The name of the generated file, when known */
+  file?: string
+  /** The names of the original files; the .astro file is the only one */
+  sources: string[]
+  /** The original sources, in the order of `sources`, when known */
+  sourcesContent?: string[]
+  /** Symbol names referred to by mappings (unused, always empty) */
+  names: string[]
+  /** Base64 VLQ encoded mappings from generated to original positions */
+  mappings: string
+}
+
+/**
+ * What to record in the source map besides the mappings
+ */
+export interface SourceMapOptions {
+  /** The name of the generated file */
+  file?: string
+  /**
+   * The name of the .astro file the output was generated from. Without it
+   * the map names the source `input.astro`, since tools can't resolve an empty name.
+   */
+  sourceFileName?: string
+  /** The text of the .astro file, embedded as `sourcesContent` */
+  sourceContent?: string
+}
+
+/**
+ * Generated output that remembers where its pieces came from
+ */
+export interface MappedOutput {
+  /**
+   * Append generated text
+   *
+   * When `original` is given, the text is mapped to that source position.
+   * Line breaks in the text are taken to be line breaks of the source too,
+   * so every following line of the text is mapped to the start of the
+   * matching source line. Text written without `original` is left unmapped.
+   *
+   * @param text - The generated text
+   * @param original - Where the text starts in the source
+   */
+  write(text: string, original?: Point): void
+  /** The output written so far */
+  toString(): string
+  /** A source map for the output written so far */
+  toSourceMap(options?: SourceMapOptions): SourceMap
+}
+
+/**
+ * One mapping: a generated column on a line and the source position it came from
+ */
+interface Segment {
+  /** 0-based generated column */
+  column: number
+  /** 0-based source line and column; absent for unmapped output */
+  original?: { line: number; column: number }
+}
+
+/**
+ * The source name recorded when the .astro file's name isn't known
+ */
+const DEFAULT_SOURCE_FILE_NAME = 'input.astro'
+
+/**
+ * Create an empty output to write generated code into
+ *
+ * @returns The output
+ *
+ * @example
+ * ```typescript
+ * const output = createMappedOutput()
+ * output.write('<p>', element.position?.start)
+ * output.write('</p>')
+ * output.toSourceMap({ sourceFileName: 'Page.astro' }).mappings // 'AAAA,GAAG'
+ * ```
+ */
+export function createMappedOutput(): MappedOutput {
+  const chunks: string[] = []
+  /** Segments of each generated line */
+  const lines: Segment[][] = [[]]
+  let column = 0
+  let mapped = false
+
+  const addSegment = (segment: Segment) => {
+    const line = lines[lines.length - 1]
+    // A later segment at the same column replaces the earlier one
+    if (line.length && line[line.length - 1].column === segment.column) line.pop()
+    line.push(segment)
+    mapped = !!segment.original
+  }
+
+  return {
+    write(text, original) {
+      if (!text) return
+      chunks.push(text)
+
+      if (original) {
+        addSegment({ column, original: { line: original.line - 1, column: original.column - 1 } })
+      } else if (mapped) {
+        addSegment({ column })
+      }
+
+      let lineStart = 0
+      let lineIndex = 0
+      for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+        lineStart = index + 1
+        lineIndex++
+        lines.push([])
+        column = 0
+        if (original && lineStart < text.length) {
+          addSegment({ column: 0, original: { line: original.line - 1 + lineIndex, column: 0 } })
+        }
+      }
+      column += text.length - lineStart
+    },
+
+    toString() {
+      return chunks.join('')
+    },
+
+    toSourceMap(options = {}) {
+      const map: SourceMap = {
+        version: 3,
+        sources: [options.sourceFileName || DEFAULT_SOURCE_FILE_NAME],
+        names: [],
+        mappings: encodeMappings(lines),
+      }
+      if (options.file !== undefined) map.file = options.file
+      if (options.sourceContent !== undefined) map.sourcesContent = [options.sourceContent]
+      return map
+    },
+  }
+}
+
+/**
+ * Encode segments as the `mappings` field of a source map
+ *
+ * Each segment is written relative to the one before it: the generated
+ * column within its line, and the source index, line and column across lines.
+ */
+function encodeMappings(lines: Segment[][]): string {
+  let sourceLine = 0
+  let sourceColumn = 0
+
+  return lines
+    .map(segments => {
+      let generatedColumn = 0
+      return segments
+        .map(({ column, original }) => {
+          let encoded = encodeVLQ(column - generatedColumn)
+          generatedColumn = column
+          if (original) {
+            // Source index is always 0, so its delta is too
+            encoded += `A${encodeVLQ(original.line - sourceLine)}${encodeVLQ(original.column - sourceColumn)}`
+            sourceLine = original.line
+            sourceColumn = original.column
+          }
+          return encoded
+        })
+        .join(',')
+    })
+    .join(';')
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * Encode a number as a base64 VLQ: the sign in the lowest bit, then five
+ * bits per digit with the sixth bit marking that more digits follow
+ */
+function encodeVLQ(value: number): string {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1
+  let encoded = ''
+  do {
+    let digit = rest & 0b11111
+    rest >>>= 5
+    if (rest > 0) digit |= 0b100000
+    encoded += BASE64_DIGITS[digit]
+  } while (rest > 0)
+  return encoded
+}
@@ -0,0 +1,415 @@
+/**
+ * Boundary detection for JavaScript expressions embedded in templates
+ *
+ * Counting braces is not enough to find where `{...}` ends: braces also
+ * appear inside strings, template literals, comments and regular
+ * expressions. These helpers skip over those constructs so only
+ * braces that are actual code are counted.
+ *
+ * @module expression
+ */
+
+/**
+ * Keywords after which a `/` starts a regular expression rather than a division
+ */
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  'await',
+  'case',
+  'delete',
+  'do',
+  'else',
+  'in',
+  'instanceof',
+  'new',
+  'of',
+  'return',
+  'throw',
+  'typeof',
+  'void',
+  'yield',
+])
+
+const IDENTIFIER_CHAR_REGEX = /[\w$]/
+
+/**
+ * Elements that never have content or an end tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+/**
+ * Elements whose content is never markup
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style'])
+
+/**
+ * Scanning state carried across the code chunks of one expression
+ */
+export interface CodeScanState {
+  /** Depth of `{` nesting inside the expression */
+  depth: number
+  /** Whether the next token is in operand position (a `/` starts a regex, a `<` starts markup) */
+  regexAllowed: boolean
+}
+
+/**
+ * Find the `}` that closes an expression whose code starts at `start`
+ *
+ * Nested braces, strings, template literals (including `${...}`
+ * substitutions), comments, regular expression literals and embedded
+ * markup are skipped, so `{"}"}`, `` {`${a}`} `` and
+ * `{items.map(i => <li>Don't</li>)}` are all handled.
+ *
+ * @param source - The full source text
+ * @param start - Offset of the first character after the opening `{`
+ * @returns Offset of the closing `}`, or -1 if the expression is unterminated
+ *
+ * @example
+ * ```typescript
+ * findExpressionEnd('{"}" + a}', 1) // 8
+ * ```
+ */
+export function findExpressionEnd(source: string, start: number): number {
+  const state: CodeScanState = { depth: 0, regexAllowed: true }
+  let index = start
+
+  while (true) {
+    const stop = scanCode(source, index, state)
+    if (stop === -1 || source[stop] === '}') return stop
+    index = skipMarkup(source, stop)
+    state.regexAllowed = false
+  }
+}
+
+/**
+ * Scan expression code up to the closing `}` or the start of embedded markup
+ *
+ * Markup starts at a `<` followed by a letter (or the `>` of a `<>` fragment)
+ * in operand position, so `a < b` stays a comparison while `cond && <p>...</p>`
+ * is markup.
+ *
+ * @param source - The full source text
+ * @param start - Offset to start scanning from
+ * @param state - Scanning state, updated as code is consumed
+ * @returns Offset of the closing `}` or of the markup's `<`, or -1 if the source ends first
+ */
+export function scanCode(source: string, start: number, state: CodeScanState): number {
+  let index = start
+
+  while (index < source.length) {
+    const char = source[index]
+
+    if (char === '}') {
+      if (state.depth === 0) return index
+      state.depth--
+      state.regexAllowed = false
+      index++
+      continue
+    }
+
+    if (char === '{') {
+      state.depth++
+      state.regexAllowed = true
+      index++
+      continue
+    }
+
+    if (char === '<' && state.regexAllowed && /[a-zA-Z>]/.test(source[index + 1] ?? '')) {
+      return index
+    }
+
+    if (char === '"' || char === "'") {
+      index = skipString(source, index)
+      state.regexAllowed = false
+      continue
+    }
+
+    if (char === '`') {
+      index = skipTemplateLiteral(source, index)
+      state.regexAllowed = false
+      continue
+    }
+
+    if (char === '/' && source[index + 1] === '/') {
+      const newline = source.indexOf('\n', index)
+      index = newline === -1 ? source.length : newline
+      continue
+    }
+
+    if (char === '/' && source[index + 1] === '*') {
+      const close = source.indexOf('*/', index + 2)
+      index = close === -1 ? source.length : close + 2
+      continue
+    }
+
+    if (char === '/') {
+      // `</` closes markup (e.g. `<li>{x}</li>`) and never starts a regex
+      const regexEnd =
+        state.regexAllowed && source[index - 1] !== '<' ? skipRegex(source, index) : -1
+      if (regexEnd !== -1) {
+        index = regexEnd
+        state.regexAllowed = false
+      } else {
+        index++
+        state.regexAllowed = true
+      }
+      continue
+    }
+
+    if (IDENTIFIER_CHAR_REGEX.test(char)) {
+      let end = index + 1
+      while (end < source.length && IDENTIFIER_CHAR_REGEX.test(source[end])) end++
+      state.regexAllowed = KEYWORDS_BEFORE_EXPRESSION.has(source.slice(index, end))
+      index = end
+      continue
+    }
+
+    if (char === ')' || char === ']') {
+      state.regexAllowed = false
+    } else if (char !== ' ' && char !== '\t' && char !== '\n' && char !== '\r') {
+      state.regexAllowed = true
+    }
+    index++
+  }
+
+  return -1
+}
+
+/**
+ * Skip one element of markup embedded in an expression, including its content
+ *
+ * Text content is not code, so quotes and slashes in it are ignored.
+ * The element ends at its matching end tag, or at a `}` that closes the
+ * enclosing expression when an end tag is missing.
+ *
+ * @param source - The full source text
+ * @param start - Offset of the element's `<`
+ * @returns Offset just after the element
+ */
+export function skipMarkup(source: string, start: number): number {
+  const openElements: string[] = []
+  let index = start
+
+  while (index < source.length) {
+    const char = source[index]
+
+    if (source.startsWith('<!--', index)) {
+      const close = source.indexOf('-->', index + 4)
+      index = close === -1 ? source.length : close + 3
+      continue
+    }
+
+    if (char === '<' && source[index + 1] === '/') {
+      const nameEnd = skipTagName(source, index + 2)
+      const name = tagKey(source.slice(index + 2, nameEnd))
+      const close = source.indexOf('>', nameEnd)
+      index = close === -1 ? source.length : close + 1
+      const open = openElements.lastIndexOf(name)
+      if (open !== -1) {
+        openElements.length = open
+      }
+      if (!openElements.length) return index
+      continue
+    }
+
+    if (char === '<' && /[a-zA-Z>]/.test(source[index + 1] ?? '')) {
+      const nameEnd = skipTagName(source, index + 1)
+      const name = tagKey(source.slice(index + 1, nameEnd))
+      const tag = skipStartTag(source, nameEnd)
+      index = tag.end
+      if (!tag.selfClosing && !VOID_ELEMENTS.has(name)) {
+        if (RAW_TEXT_ELEMENTS.has(name)) {
+          const close = findRawTextEnd(source, name, index)
+          index = close === -1 ? source.length : close
+        }
+        openElements.push(name)
+      }
+      if (!openElements.length) return index
+      continue
+    }
+
+    if (char === '{') {
+      const end = findExpressionEnd(source, index + 1)
+      index = end === -1 ? source.length : end + 1
+      continue
+    }
+
+    // A stray `}` belongs to the enclosing expression
+    if (char === '}') return index
+    index++
+  }
+
+  return source.length
+}
+
+/**
+ * The name a tag is looked up and matched with its end tag by
+ *
+ * HTML element names are case-insensitive (`<BR>`, `</DIV>`), so they are
+ * lower-cased; a capitalized component name (`Link`, `UI.Button`) is kept as written.
+ *
+ * @param name - The tag name as written
+ * @returns The name to compare
+ */
+function tagKey(name: string): string {
+  return /^[A-Z]/.test(name) && !/^[A-Z][A-Z0-9]*$/.test(name) ? name : name.toLowerCase()
+}
+
+/**
+ * Find the end tag closing a raw text element, in any case
+ *
+ * @param source - The full source text
+ * @param name - The lower-case element name
+ * @param start - Offset just after the start tag
+ * @returns Offset of the end tag's `<`, or -1 if there is none
+ */
+function findRawTextEnd(source: string, name: string, start: number): number {
+  let index = source.indexOf('</', start)
+  while (index !== -1 && source.slice(index + 2, index + 2 + name.length).toLowerCase() !== name) {
+    index = source.indexOf('</', index + 2)
+  }
+  return index
+}
+
+/**
+ * Skip the characters of a tag name
+ *
+ * @param source - The full source text
+ * @param start - Offset of the first character of the name
+ * @returns Offset just after the name
+ */
+function skipTagName(source: string, start: number): number {
+  let index = start
+  while (index < source.length && /[a-zA-Z0-9.-]/.test(source[index])) index++
+  return index
+}
+
+/**
+ * Skip the attributes of a start tag and its closing `>` or `/>`
+ *
+ * As in HTML, an unquoted attribute value runs until whitespace or `>`, so
+ * the `/` of `href=/a/>` belongs to the value and doesn't close the tag.
+ *
+ * @param source - The full source text
+ * @param start - Offset just after the tag name
+ * @returns Offset just after the tag, and whether it ended with `/>`
+ */
+function skipStartTag(source: string, start: number): { end: number; selfClosing: boolean } {
+  let index = start
+  while (index < source.length) {
+    const char = source[index]
+    if (char === '>') return { end: index + 1, selfClosing: false }
+    if (char === '/' && source[index + 1] === '>') return { end: index + 2, selfClosing: true }
+    if (char === '"' || char === "'") {
+      const close = source.indexOf(char, index + 1)
+      index = close === -1 ? source.length : close + 1
+    } else if (char === '`') {
+      index = skipTemplateLiteral(source, index)
+    } else if (char === '{') {
+      const end = findExpressionEnd(source, index + 1)
+      index = end === -1 ? source.length : end + 1
+    } else if (char === '=') {
+      index++
+      while (index < source.length && /\s/.test(source[index])) index++
+      if (!/["'`{]/.test(source[index] ?? '"')) {
+        while (index < source.length && !/[\s>]/.test(source[index])) index++
+      }
+    } else {
+      index++
+    }
+  }
+  return { end: source.length, selfClosing: false }
+}
+
+/**
+ * Skip a single- or double-quoted string literal
+ *
+ * @param source - The full source text
+ * @param start - Offset of the opening quote
+ * @returns Offset just after the closing quote (or the end of the source)
+ */
+function skipString(source: string, start: number): number {
+  const quote = source[start]
+  let index = start + 1
+  while (index < source.length) {
+    const char = source[index]
+    if (char === '\\') {
+      index += 2
+      continue
+    }
+    if (char === quote) return index + 1
+    // An unescaped newline ends an (invalid) string; don't run away with the rest of the file
+    if (char === '\n') return index
+    index++
+  }
+  return source.length
+}
+
+/**
+ * Skip a template literal, including any `${...}` substitutions
+ *
+ * @param source - The full source text
+ * @param start - Offset of the opening backtick
+ * @returns Offset just after the closing backtick (or the end of the source)
+ */
+export function skipTemplateLiteral(source: string, start: number): number {
+  let index = start + 1
+  while (index < source.length) {
+    const char = source[index]
+    if (char === '\\') {
+      index += 2
+      continue
+    }
+    if (char === '`') return index + 1
+    if (char === '$' && source[index + 1] === '{') {
+      const end = findExpressionEnd(source, index + 2)
+      if (end === -1) return source.length
+      index = end + 1
+      continue
+    }
+    index++
+  }
+  return source.length
+}
+
+/**
+ * Skip a regular expression literal, including its flags
+ *
+ * @param source - The full source text
+ * @param start - Offset of the opening `/`
+ * @returns Offset just after the literal, or -1 if no closing `/` exists on the same line
+ */
+function skipRegex(source: string, start: number): number {
+  let index = start + 1
+  let inClass = false
+  while (index < source.length) {
+    const char = source[index]
+    if (char === '\n') return -1
+    if (char === '\\') {
+      index += 2
+      continue
+    }
+    if (char === '[') inClass = true
+    else if (char === ']') inClass = false
+    else if (char === '/' && !inClass) {
+      index++
+      while (index < source.length && IDENTIFIER_CHAR_REGEX.test(source[index])) index++
+      return index
+    }
+    index++
+  }
+  return -1
+}
@@ -1,2 +1,2 @@
-export { tokenize } from './tokenizer.js'
-export type { Token, TokenType } from './types.js'
+export { tokenize, tokenizeIterator } from './tokenizer.js'
+export type { Token, TokenType, TokenizeOptions } from './types.js'
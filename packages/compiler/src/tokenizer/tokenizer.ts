@@ -1,7 +1,70 @@
-import type { Token } from './types.js'
+import { createDiagnostic } from '../diagnostics/diagnostic.js'
+import type { DiagnosticCode } from '../diagnostics/diagnostic.js'
+import { scanCode, skipMarkup, skipTemplateLiteral } from './expression.js'
+import type { CodeScanState } from './expression.js'
+import type { Point, Token, TokenizeOptions } from './types.js'
 
-export function tokenize(source: string): Token[] {
-  const tokens: Token[] = []
+/**
+ * Elements whose content is raw text: nothing inside them is parsed
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style'])
+
+/**
+ * Elements whose content is escapable raw text: tags are not recognised,
+ * but (as in Astro) `{expressions}` still are. The content is ordinary text
+ * that is escaped on output.
+ */
+const ESCAPABLE_RAW_TEXT_ELEMENTS = new Set(['textarea', 'title'])
+
+/**
+ * Characters allowed in attribute names: anything HTML allows
+ * (so `@click`, `x.y`, `_foo` and `aria-*` work) except braces,
+ * which start Astro expressions
+ */
+const ATTRIBUTE_NAME_CHAR_REGEX = /[^\s"'<>/=`{}]/
+
+/**
+ * Characters allowed in tag names, including the dots of
+ * member-expression component names such as `UI.Button`
+ */
+const TAG_NAME_CHAR_REGEX = /[a-zA-Z0-9.-]/
+
+/**
+ * Split Astro source into tokens
+ *
+ * @param source - The Astro source code
+ * @param options - Tokenizer options
+ * @returns Every token in the source, ending with EOF
+ */
+export function tokenize(source: string, options: TokenizeOptions = {}): Token[] {
+  return [...tokenizeIterator(source, options)]
+}
+
+/**
+ * Lazily split Astro source into tokens
+ *
+ * Yields the same tokens as `tokenize()`, one construct at a time, so
+ * large documents never need a full token array and consumers can stop
+ * as soon as they have what they need.
+ *
+ * @param source - The Astro source code
+ * @param options - Tokenizer options
+ * @returns A generator of tokens, ending with EOF
+ *
+ * @example
+ * ```typescript
+ * for (const token of tokenizeIterator(source)) {
+ *   if (token.type === 'FRONTMATTER_CONTENT') return token.value
+ * }
+ * ```
+ */
+export function* tokenizeIterator(
+  source: string,
+  options: TokenizeOptions = {},
+): Generator<Token, void, undefined> {
+  const { preserveWhitespace = false, onDiagnostic } = options
+  // Tokens produced by the construct being read, yielded once it is complete
+  const pending: Token[] = []
   let current = 0
   let line = 1
   let col = 1
@@ -23,189 +86,525 @@ export function tokenize(source: string): Token[] {
   }
 
   function match(pattern: string): boolean {
-    return source.slice(current, current + pattern.length) === pattern
+    return source.startsWith(pattern, current)
   }
 
-  function addToken(type: Token['type'], value: string): void {
-    tokens.push({ type, value, line, col })
+  function point(): Point {
+    return { offset: current, line, column: col }
   }
 
-  // Check for frontmatter at the start
-  if (match('---') && current === 0) {
-    addToken('FRONTMATTER_START', '---')
-    advance(3)
+  /**
+   * Push a token spanning from `start` up to the current position.
+   * Callers advance past the token's characters before adding it.
+   */
+  function addToken(type: Token['type'], value: string, start: Point = point()): Token {
+    const token: Token = {
+      type,
+      value,
+      line: start.line,
+      col: start.column,
+      span: { start, end: point() },
+    }
+    pending.push(token)
+    return token
+  }
 
-    // Skip newline after opening ---
-    if (peek() === '\n') {
+  /**
+   * Report an error located at the token it concerns
+   */
+  function report(code: DiagnosticCode, token: Token, message: string, hint: string): void {
+    onDiagnostic?.(
+      createDiagnostic(source, { code, severity: 'error', message, span: token.span, hint }),
+    )
+  }
+
+  function isWhitespace(char: string): boolean {
+    return char === ' ' || char === '\t' || char === '\n' || char === '\r'
+  }
+
+  /**
+   * Consume characters while `test` accepts them
+   *
+   * @returns The consumed text
+   */
+  function readWhile(test: (char: string) => boolean): string {
+    const start = current
+    while (current < source.length && test(source[current])) {
       advance()
     }
+    return source.slice(start, current)
+  }
 
-    // Collect frontmatter content
-    let content = ''
-    while (current < source.length) {
-      // Check for closing ---
-      if (peek() === '\n' || current === 0) {
-        const nextLineStart = peek() === '\n' ? current + 1 : current
-        if (
-          source.slice(nextLineStart, nextLineStart + 3) === '---' &&
-          (source[nextLineStart + 3] === '\n' || source[nextLineStart + 3] === undefined)
-        ) {
-          if (content) {
-            addToken('FRONTMATTER_CONTENT', content.trim())
-          }
-          if (peek() === '\n') advance()
-          addToken('FRONTMATTER_END', '---')
-          advance(3)
-          if (peek() === '\n') advance()
-          break
-        }
+  /**
+   * Hand out the pending tokens and clear the queue
+   */
+  function* flush(): Generator<Token, void, undefined> {
+    yield* pending
+    pending.length = 0
+  }
+
+  /**
+   * Consume a run of whitespace, keeping it as a WHITESPACE token in lossless mode
+   */
+  function skipWhitespace(): void {
+    const start = point()
+    const value = readWhile(isWhitespace)
+    if (value && preserveWhitespace) {
+      addToken('WHITESPACE', value, start)
+    }
+  }
+
+  /**
+   * Consume a single newline, keeping it as a WHITESPACE token in lossless mode
+   */
+  function skipNewline(): void {
+    if (peek() !== '\n') return
+    const start = point()
+    advance()
+    if (preserveWhitespace) {
+      addToken('WHITESPACE', '\n', start)
+    }
+  }
+
+  /**
+   * Check whether the source at `index` starts the end tag for `tagName`
+   */
+  function isEndTagAt(index: number, tagName: string): boolean {
+    // Raw text is scanned character by character, so rule out most positions without slicing
+    if (source[index] !== '<' || source[index + 1] !== '/') {
+      return false
+    }
+    const end = index + 2 + tagName.length
+    if (source.slice(index + 2, end).toLowerCase() !== tagName.toLowerCase()) {
+      return false
+    }
+    const next = source[end]
+    return next === undefined || next === '>' || next === '/' || isWhitespace(next)
+  }
+
+  /**
+   * Read the content of a raw text element up to its end tag
+   *
+   * Raw text comes out as RAW_TEXT tokens. Escapable raw text recognises
+   * `{expressions}` and comes out as TEXT tokens, since it is escaped like
+   * any other text.
+   *
+   * @param tagName - The element whose end tag terminates the content
+   * @param escapable - Whether the content is escapable raw text
+   */
+  function readRawText(tagName: string, escapable: boolean): void {
+    while (current < source.length && !isEndTagAt(current, tagName)) {
+      if (escapable && peek() === '{') {
+        readExpression()
+        continue
       }
-      content += peek()
-      advance()
+
+      const start = point()
+      let end = current
+      while (
+        end < source.length &&
+        !isEndTagAt(end, tagName) &&
+        !(escapable && source[end] === '{')
+      ) {
+        end++
+      }
+      const value = source.slice(current, end)
+      advance(end - current)
+      addToken(escapable ? 'TEXT' : 'RAW_TEXT', value, start)
     }
   }
 
-  // Main tokenization loop
-  while (current < source.length) {
+  /**
+   * Read an expression, including any markup inside it
+   *
+   * Code comes out as EXPRESSION_CONTENT chunks, and markup embedded in the
+   * code (`{items.map(i => <li>{i}</li>)}`) as ordinary tag and text tokens
+   * between the chunks.
+   */
+  function readExpression(): void {
+    const expressionStart = point()
+    advance()
+    const startToken = addToken('EXPRESSION_START', '{', expressionStart)
+    const scan: CodeScanState = { depth: 0, regexAllowed: true }
+
+    while (true) {
+      const stop = scanCode(source, current, scan)
+      // An unterminated expression runs to the end of the source
+      const codeEnd = stop === -1 ? source.length : stop
+      if (codeEnd > current) {
+        const start = point()
+        const content = source.slice(current, codeEnd)
+        advance(codeEnd - current)
+        addToken('EXPRESSION_CONTENT', content, start)
+      }
+
+      if (stop === -1) {
+        report(
+          'unterminated-expression',
+          startToken,
+          'Expression is never closed',
+          'Add a closing `}` after the expression',
+        )
+        return
+      }
+
+      if (source[stop] === '}') {
+        const endStart = point()
+        advance()
+        addToken('EXPRESSION_END', '}', endStart)
+        return
+      }
+
+      readUntil(skipMarkup(source, stop))
+      scan.regexAllowed = false
+    }
+  }
+
+  /**
+   * Read the next construct (tag, comment, expression, text...) starting at
+   * the current position, without reading past `limit`
+   */
+  function readNext(limit: number): void {
     const char = peek()
 
-    // Skip whitespace between elements
-    if (char === ' ' || char === '\t' || char === '\n') {
-      advance()
-      continue
+    // Skip whitespace between elements (lossless mode reads it as text below)
+    if (!preserveWhitespace && isWhitespace(char)) {
+      while (current < limit && isWhitespace(peek())) {
+        advance()
+      }
+      return
+    }
+
+    // HTML comment (conditional comments are ordinary comments whose text starts with [if ...]>)
+    if (match('<!--')) {
+      const start = point()
+      const close = source.indexOf('-->', current + 4)
+      const end = close === -1 ? source.length : close
+      const value = source.slice(current + 4, end)
+      advance(end - current + (close === -1 ? 0 : 3))
+      const token = addToken('COMMENT', value, start)
+      if (close === -1) {
+        report('unterminated-comment', token, 'Comment is never closed', 'Add `-->` to close it')
+      }
+      return
+    }
+
+    // DOCTYPE declaration (the keyword is case-insensitive)
+    if (match('<!') && source.slice(current + 2, current + 9).toUpperCase() === 'DOCTYPE') {
+      const start = point()
+      const close = source.indexOf('>', current + 9)
+      const end = close === -1 ? source.length : close
+      const value = source.slice(current + 9, end).trim()
+      advance(end - current + (close === -1 ? 0 : 1))
+      addToken('DOCTYPE', value, start)
+      return
+    }
+
+    // Processing instruction such as <?xml version="1.0"?>
+    if (match('<?')) {
+      const start = point()
+      let close = source.indexOf('?>', current + 2)
+      let closeLength = 2
+      if (close === -1) {
+        // HTML ends a processing instruction at the first `>`
+        close = source.indexOf('>', current + 2)
+        closeLength = 1
+      }
+      const end = close === -1 ? source.length : close
+      const value = source.slice(current + 2, end)
+      advance(end - current + (close === -1 ? 0 : closeLength))
+      addToken('PROCESSING_INSTRUCTION', value, start)
+      return
     }
 
     // HTML end tag
     if (match('</')) {
-      addToken('HTML_TAG_CLOSE', '</')
+      const start = point()
       advance(2)
+      addToken('HTML_TAG_CLOSE', '</', start)
 
-      let tagName = ''
-      while (current < source.length && /[a-zA-Z0-9-]/.test(peek())) {
-        tagName += peek()
-        advance()
-      }
-      addToken('HTML_TAG_NAME', tagName)
+      const nameStart = point()
+      const tagName = readWhile(char => TAG_NAME_CHAR_REGEX.test(char))
+      addToken('HTML_TAG_NAME', tagName, nameStart)
+      skipWhitespace()
 
-      // Skip to >
-      while (current < source.length && peek() !== '>') {
-        advance()
+      // Anything else before the `>` (such as attributes on an end tag) has no meaning
+      // but is kept as a token so the spans still cover the whole source
+      const invalidStart = point()
+      const invalid = readWhile(char => char !== '>')
+      if (invalid) {
+        addToken('HTML_TAG_INVALID', invalid, invalidStart)
       }
       if (peek() === '>') {
-        addToken('HTML_TAG_CLOSE', '>')
+        const closeStart = point()
         advance()
+        addToken('HTML_TAG_CLOSE', '>', closeStart)
       }
-      continue
+      return
     }
 
-    // HTML start tag
-    if (char === '<' && /[a-zA-Z]/.test(peek(1))) {
-      addToken('HTML_TAG_OPEN', '<')
+    // HTML start tag, or `<>` opening a fragment (its name token is empty)
+    if (char === '<' && (/[a-zA-Z]/.test(peek(1)) || peek(1) === '>')) {
+      const start = point()
       advance()
+      addToken('HTML_TAG_OPEN', '<', start)
 
-      let tagName = ''
-      while (current < source.length && /[a-zA-Z0-9-]/.test(peek())) {
-        tagName += peek()
-        advance()
-      }
-      addToken('HTML_TAG_NAME', tagName)
+      const nameStart = point()
+      const tagName = readWhile(char => TAG_NAME_CHAR_REGEX.test(char))
+      addToken('HTML_TAG_NAME', tagName, nameStart)
+      let hasRawDirective = false
 
       // Parse attributes
       while (current < source.length && peek() !== '>' && !match('/>')) {
         // Skip whitespace
-        if (peek() === ' ' || peek() === '\t') {
-          advance()
+        if (isWhitespace(peek())) {
+          skipWhitespace()
           continue
         }
 
         // Attribute name
-        if (/[a-zA-Z]/.test(peek())) {
-          let attrName = ''
-          while (current < source.length && /[a-zA-Z0-9-:]/.test(peek())) {
-            attrName += peek()
-            advance()
+        if (ATTRIBUTE_NAME_CHAR_REGEX.test(peek())) {
+          const nameStart = point()
+          const attrName = readWhile(char => ATTRIBUTE_NAME_CHAR_REGEX.test(char))
+          addToken('HTML_ATTRIBUTE_NAME', attrName, nameStart)
+          if (attrName === 'is:raw') {
+            hasRawDirective = true
           }
-          addToken('HTML_ATTRIBUTE_NAME', attrName)
 
           // Skip whitespace and =
-          while (peek() === ' ' || peek() === '\t') advance()
+          skipWhitespace()
           if (peek() === '=') {
+            const equalsStart = point()
             advance()
-            while (peek() === ' ' || peek() === '\t') advance()
+            addToken('HTML_ATTRIBUTE_EQUALS', '=', equalsStart)
+            skipWhitespace()
 
-            // Attribute value
+            // Attribute value (the token span includes the quotes)
             if (peek() === '"' || peek() === "'") {
               const quote = peek()
+              const valueStart = point()
               advance() // Skip opening quote
-              let value = ''
-              while (current < source.length && peek() !== quote) {
-                value += peek()
-                advance()
+              const value = readWhile(char => char !== quote)
+              const closed = current < source.length
+              if (closed) advance() // Skip closing quote
+              const token = addToken('HTML_ATTRIBUTE_VALUE', value, valueStart)
+              if (!closed) {
+                report(
+                  'unterminated-attribute-value',
+                  token,
+                  'Attribute value is never closed',
+                  `Add a closing ${quote} after the value`,
+                )
+              }
+            } else if (peek() === '{') {
+              readExpression()
+            } else if (peek() === '`') {
+              // Template literal value: kept whole, backticks included
+              const valueStart = point()
+              const end = skipTemplateLiteral(source, current)
+              const value = source.slice(current, end)
+              advance(end - current)
+              const token = addToken('HTML_ATTRIBUTE_TEMPLATE_LITERAL', value, valueStart)
+              if (value.length < 2 || !value.endsWith('`')) {
+                report(
+                  'unterminated-attribute-value',
+                  token,
+                  'Template literal is never closed',
+                  'Add a closing ` after the value',
+                )
+              }
+            } else {
+              // Unquoted value: runs until whitespace or `>`; as in HTML, a `/`
+              // before the `>` is part of the value, not a self-closing slash
+              const valueStart = point()
+              const value = readWhile(char => !isWhitespace(char) && char !== '>')
+              if (value) {
+                addToken('HTML_ATTRIBUTE_VALUE', value, valueStart)
               }
-              advance() // Skip closing quote
-              addToken('HTML_ATTRIBUTE_VALUE', value)
             }
           }
+        } else if (peek() === '{') {
+          // Shorthand ({title}) or spread ({...props}) attribute
+          readExpression()
         } else {
+          // Characters that start no attribute, such as a stray quote or `/`
+          const invalidStart = point()
           advance()
+          while (
+            current < source.length &&
+            !isWhitespace(peek()) &&
+            !ATTRIBUTE_NAME_CHAR_REGEX.test(peek()) &&
+            peek() !== '{' &&
+            peek() !== '>' &&
+            !match('/>')
+          ) {
+            advance()
+          }
+          addToken('HTML_TAG_INVALID', source.slice(invalidStart.offset, current), invalidStart)
         }
       }
 
       // Self-closing or regular close
+      const closeStart = point()
       if (match('/>')) {
-        addToken('HTML_TAG_SELF_CLOSE', '/>')
         advance(2)
+        addToken('HTML_TAG_SELF_CLOSE', '/>', closeStart)
       } else if (peek() === '>') {
-        addToken('HTML_TAG_CLOSE', '>')
         advance()
+        addToken('HTML_TAG_CLOSE', '>', closeStart)
+
+        const lowerName = tagName.toLowerCase()
+        if (hasRawDirective || RAW_TEXT_ELEMENTS.has(lowerName)) {
+          readRawText(tagName, false)
+        } else if (ESCAPABLE_RAW_TEXT_ELEMENTS.has(lowerName)) {
+          readRawText(tagName, true)
+        }
       }
-      continue
+      return
     }
 
     // Expression
     if (char === '{') {
-      addToken('EXPRESSION_START', '{')
+      readExpression()
+      return
+    }
+
+    // A fenced block away from the top of the file (reported by the parser)
+    if (char === '-' && atFencedBlock()) {
+      readFrontmatter()
+      return
+    }
+
+    // Text content (the first character is always taken, so a `<` or `}` that
+    // starts no other construct becomes text instead of stalling the loop)
+    const textStart = point()
+    advance()
+    while (
+      current < limit &&
+      peek() !== '<' &&
+      peek() !== '{' &&
+      peek() !== '}' &&
+      !(peek() === '-' && atFencedBlock())
+    ) {
       advance()
+    }
+    const text = source.slice(textStart.offset, current)
 
-      let depth = 1
-      let content = ''
-      while (current < source.length && depth > 0) {
-        if (peek() === '{') {
-          depth++
-          content += peek()
-          advance()
-        } else if (peek() === '}') {
-          depth--
-          if (depth === 0) {
-            if (content) {
-              addToken('EXPRESSION_CONTENT', content)
-            }
-            addToken('EXPRESSION_END', '}')
-            advance()
-          } else {
-            content += peek()
-            advance()
+    if (text.trim()) {
+      addToken('TEXT', text, textStart)
+    } else if (text && preserveWhitespace) {
+      addToken('WHITESPACE', text, textStart)
+    }
+  }
+
+  /**
+   * Read a `---` fenced frontmatter block starting at the current position
+   */
+  function readFrontmatter(): void {
+    const start = point()
+    advance(3)
+    const startToken = addToken('FRONTMATTER_START', '---', start)
+    let closed = false
+
+    // Skip newline after opening ---
+    skipNewline()
+
+    // Collect frontmatter content
+    const contentStart = point()
+    while (current < source.length) {
+      // Check for closing ---
+      if (peek() === '\n' || current === contentStart.offset) {
+        const nextLineStart = peek() === '\n' ? current + 1 : current
+        if (isFrontmatterFence(source, nextLineStart)) {
+          const content = source.slice(contentStart.offset, current)
+          if (content) {
+            addToken('FRONTMATTER_CONTENT', content.trim(), contentStart)
           }
-        } else {
-          content += peek()
-          advance()
+          skipNewline()
+          const endStart = point()
+          advance(3)
+          addToken('FRONTMATTER_END', '---', endStart)
+          skipNewline()
+          closed = true
+          break
         }
       }
-      continue
-    }
-
-    // Text content
-    let text = ''
-    while (current < source.length && peek() !== '<' && peek() !== '{' && peek() !== '}') {
-      text += peek()
       advance()
     }
+    if (!closed) {
+      // Keep the content so an unclosed block isn't silently dropped
+      const content = source.slice(contentStart.offset).trim()
+      if (content) {
+        addToken('FRONTMATTER_CONTENT', content, contentStart)
+      }
+      report(
+        'unterminated-frontmatter',
+        startToken,
+        'Frontmatter is never closed',
+        'Add a `---` line after the frontmatter',
+      )
+    }
+  }
 
-    if (text.trim()) {
-      addToken('TEXT', text)
+  /**
+   * Whether the current position starts a `---` line that a later `---` line closes
+   *
+   * Only the block at the start of the file is frontmatter; the parser
+   * reports one found anywhere else in the template and reads one inside an
+   * element (such as YAML shown in `<pre>`) as text.
+   */
+  function atFencedBlock(): boolean {
+    return (
+      source[current - 1] === '\n' &&
+      isFrontmatterFence(source, current) &&
+      findFrontmatterFence(source, current + 3) !== -1
+    )
+  }
+
+  /**
+   * Read constructs until `limit`, e.g. the end of markup inside an expression
+   */
+  function readUntil(limit: number): void {
+    while (current < limit) {
+      readNext(limit)
     }
   }
 
+  // Frontmatter at the start of the file
+  if (match('---') && current === 0) {
+    readFrontmatter()
+  }
+
+  // Main tokenization loop (each pass reads one construct, then yields its tokens)
+  while (current < source.length) {
+    yield* flush()
+    readNext(source.length)
+  }
+
   addToken('EOF', '')
-  return tokens
+  yield* flush()
+}
+
+/**
+ * Whether a `---` line (a frontmatter fence) starts at `index`
+ */
+function isFrontmatterFence(source: string, index: number): boolean {
+  return (
+    source.startsWith('---', index) &&
+    (source[index + 3] === '\n' || source[index + 3] === undefined)
+  )
+}
+
+/**
+ * Find the next frontmatter fence that starts a line at or after `from`
+ *
+ * @returns Offset of the fence, or -1 if there is none
+ */
+function findFrontmatterFence(source: string, from: number): number {
+  let newline = source.indexOf('\n---', from)
+  while (newline !== -1) {
+    if (isFrontmatterFence(source, newline + 1)) return newline + 1
+    newline = source.indexOf('\n---', newline + 1)
+  }
+  return -1
 }
@@ -1,8 +1,53 @@
+import type { DiagnosticHandler } from '../diagnostics/diagnostic.js'
+
+/**
+ * A single location in the source text
+ */
+export interface Point {
+  /** 0-based character offset from the start of the source */
+  offset: number
+  /** 1-based line number */
+  line: number
+  /** 1-based column number */
+  column: number
+}
+
+/**
+ * A range of source text, from `start` (inclusive) to `end` (exclusive)
+ */
+export interface SourceSpan {
+  start: Point
+  end: Point
+}
+
+/**
+ * Options that control how source text is split into tokens
+ */
+export interface TokenizeOptions {
+  /**
+   * Emit whitespace instead of discarding it (lossless mode).
+   *
+   * Whitespace between nodes and inside tags comes through as WHITESPACE tokens
+   * and whitespace around text stays part of the TEXT token, so concatenating
+   * the source text under every token's span reproduces the input exactly.
+   */
+  preserveWhitespace?: boolean
+  /**
+   * Called for each problem found, such as an expression or comment that is never closed.
+   * Tokenizing always continues to the end of the source.
+   */
+  onDiagnostic?: DiagnosticHandler
+}
+
 export interface Token {
   type: TokenType
   value: string
+  /** Line of the first character of the token */
   line: number
+  /** Column of the first character of the token */
   col: number
+  /** Source range covered by the token */
+  span: SourceSpan
 }
 
 export type TokenType =
@@ -13,11 +58,18 @@ export type TokenType =
   | 'HTML_TAG_CLOSE'
   | 'HTML_TAG_SELF_CLOSE'
   | 'HTML_TAG_NAME'
+  | 'HTML_TAG_INVALID'
   | 'HTML_ATTRIBUTE_NAME'
+  | 'HTML_ATTRIBUTE_EQUALS'
   | 'HTML_ATTRIBUTE_VALUE'
+  | 'HTML_ATTRIBUTE_TEMPLATE_LITERAL'
   | 'EXPRESSION_START'
   | 'EXPRESSION_END'
   | 'EXPRESSION_CONTENT'
   | 'TEXT'
+  | 'RAW_TEXT'
+  | 'COMMENT'
+  | 'DOCTYPE'
+  | 'PROCESSING_INSTRUCTION'
   | 'WHITESPACE'
   | 'EOF'
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest'
+import type { Diagnostic } from '../src/diagnostics/index.js'
 import { buildHTML } from '../src/html-builder/builder.js'
-import type { AstroAST } from '../src/parser/ast.js'
+import type { AstroAST, AstroNode } from '../src/parser/ast.js'
+import { parse } from '../src/parser/index.js'
 
 describe('buildHTML', () => {
   it('空のAST → ""を返す', () => {
@@ -260,4 +262,83 @@ describe('buildHTML', () => {
 
     expect(buildHTML(ast)).toMatchSnapshot()
   })
+
+  it('コメントはデフォルトでそのまま出力される', () => {
+    const ast: AstroAST = {
+      type: 'Program',
+      children: [
+        { type: 'Comment', value: ' License: MIT ' },
+        {
+          type: 'Element',
+          name: 'div',
+          attributes: [],
+          children: [{ type: 'Comment', value: '#include virtual="/footer.html" ' }],
+          selfClosing: false,
+        },
+      ],
+    }
+    expect(buildHTML(ast)).toBe(
+      '<!-- License: MIT --><div><!--#include virtual="/footer.html" --></div>',
+    )
+  })
+
+  it('removeCommentsオプションでコメントを除去し、条件付きコメントは残す', () => {
+    const ast: AstroAST = {
+      type: 'Program',
+      children: [
+        { type: 'Comment', value: ' License: MIT ' },
+        { type: 'Comment', value: '[if IE]><p>Old</p><![endif]' },
+        {
+          type: 'Element',
+          name: 'p',
+          attributes: [],
+          children: [{ type: 'Comment', value: ' note ' }],
+          selfClosing: false,
+        },
+      ],
+    }
+    expect(buildHTML(ast, { removeComments: true })).toBe(
+      '<!--[if IE]><p>Old</p><![endif]--><p></p>',
+    )
+  })
+
+  it('子を持つvoid要素や未知のノードを警告として報告する', () => {
+    const source = '<img src="a.png">caption'
+    const ast: AstroAST = {
+      type: 'Program',
+      children: [
+        {
+          type: 'Element',
+          name: 'img',
+          attributes: [{ name: 'src', value: 'a.png' }],
+          children: [{ type: 'Text', value: 'caption' }],
+          selfClosing: false,
+          position: {
+            start: { offset: 0, line: 1, column: 1 },
+            end: { offset: 24, line: 1, column: 25 },
+          },
+        },
+        { type: 'Unknown' } as unknown as AstroNode,
+      ],
+    }
+    const diagnostics: Diagnostic[] = []
+
+    buildHTML(ast, { source, onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+
+    expect(diagnostics).toMatchObject([
+      { code: 'void-element-children', severity: 'warning' },
+      { code: 'unknown-node', severity: 'warning' },
+    ])
+    expect(diagnostics[0].frame).toContain('> 1 | <img src="a.png">caption')
+  })
+
+  it('パースしたディレクティブを落とさずに出力する', () => {
+    const ast = parse(
+      '<div set:html={html} /><ul class:list={["a", { b }]}></ul><Card client:visible /><script define:vars={{ x }}></script>',
+    )
+
+    expect(buildHTML(ast)).toBe(
+      '<div>{html}</div><ul class:list="{["a", { b }]}"></ul><Card client:visible /><script define:vars="{{ x }}"></script>',
+    )
+  })
 })
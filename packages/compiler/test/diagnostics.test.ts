@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { codeFrame } from '../src/diagnostics/code-frame.js'
+import { CompilerError, createDiagnostic, formatDiagnostic } from '../src/diagnostics/diagnostic.js'
+import type { SourceSpan } from '../src/tokenizer/types.js'
+
+const span: SourceSpan = {
+  start: { offset: 8, line: 2, column: 3 },
+  end: { offset: 13, line: 2, column: 8 },
+}
+
+describe('診断', () => {
+  it('コードフレームで該当箇所に印を付ける', () => {
+    const source = '<div>\n  {name\n</div>\n<p>a</p>\n<p>b</p>'
+    expect(codeFrame(source, span)).toBe(
+      ['  1 | <div>', '> 2 |   {name', '    |   ^^^^^', '  3 | </div>', '  4 | <p>a</p>'].join(
+        '\n',
+      ),
+    )
+  })
+
+  it('ファイルの先頭と末尾の行では、ある分だけ前後の行を表示する', () => {
+    const point = (offset: number, line: number, column: number) => ({ offset, line, column })
+
+    expect(codeFrame('\nab\ncd', { start: point(0, 1, 1), end: point(0, 1, 1) })).toBe(
+      ['> 1 | ', '    | ^', '  2 | ab', '  3 | cd'].join('\n'),
+    )
+    expect(codeFrame('a\n\nb\ncd', { start: point(6, 4, 2), end: point(7, 4, 3) })).toBe(
+      ['  2 |', '  3 | b', '> 4 | cd', '    |  ^'].join('\n'),
+    )
+  })
+
+  it('コード・位置・フレーム・ヒントを含めて整形する', () => {
+    const diagnostic = createDiagnostic('<div>\n  {name\n</div>', {
+      code: 'unterminated-expression',
+      severity: 'error',
+      message: 'Expression is never closed',
+      span,
+      hint: 'Add a closing `}` after the expression',
+    })
+
+    expect(formatDiagnostic(diagnostic)).toBe(
+      [
+        'error[unterminated-expression]: Expression is never closed (2:3)',
+        '  1 | <div>',
+        '> 2 |   {name',
+        '    |   ^^^^^',
+        '  3 | </div>',
+        'hint: Add a closing `}` after the expression',
+      ].join('\n'),
+    )
+  })
+
+  it('ソースや位置がなければフレームを省略する', () => {
+    const diagnostic = createDiagnostic(undefined, {
+      code: 'unknown-node',
+      severity: 'warning',
+      message: 'Unknown node type Foo',
+    })
+
+    expect(diagnostic.frame).toBeUndefined()
+    expect(formatDiagnostic(diagnostic)).toBe('warning[unknown-node]: Unknown node type Foo')
+  })
+
+  it('CompilerErrorは診断情報を保持する', () => {
+    const diagnostic = createDiagnostic('{a', {
+      code: 'unexpected-token',
+      severity: 'error',
+      message: 'Expected EXPRESSION_END but got EOF',
+      span,
+    })
+    const error = new CompilerError(diagnostic)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('CompilerError')
+    expect(error.code).toBe('unexpected-token')
+    expect(error.span).toBe(span)
+    expect(error.message).toBe(formatDiagnostic(diagnostic))
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { findExpressionEnd, skipMarkup } from '../src/tokenizer/expression.js'
+
+/**
+ * `{...}` 形式のソースから式の中身を取り出すヘルパー
+ */
+function expressionBody(source: string): string {
+  const end = findExpressionEnd(source, 1)
+  return end === -1 ? '<unterminated>' : source.slice(1, end)
+}
+
+describe('findExpressionEnd', () => {
+  it('ネストした波括弧を数える', () => {
+    expect(expressionBody('{ { a: { b } } } rest')).toBe(' { a: { b } } ')
+  })
+
+  it('文字列内の波括弧を無視する', () => {
+    expect(expressionBody('{"}"}')).toBe('"}"')
+    expect(expressionBody(`{'{' + "\\"}"} rest`)).toBe(`'{' + "\\"}"`)
+  })
+
+  it('テンプレートリテラルと置換式を扱う', () => {
+    expect(expressionBody('{`${a}`}')).toBe('`${a}`')
+    expect(expressionBody('{`}${ {x: `}`}.x }`} rest')).toBe('`}${ {x: `}`}.x }`')
+  })
+
+  it('コメント内の波括弧を無視する', () => {
+    expect(expressionBody('{/* } */ x}')).toBe('/* } */ x')
+    expect(expressionBody('{x // }\n}')).toBe('x // }\n')
+  })
+
+  it('正規表現リテラル内の波括弧を無視する', () => {
+    expect(expressionBody('{/\\}{2}/.test(s)}')).toBe('/\\}{2}/.test(s)')
+    expect(expressionBody('{s.replace(/[}]/g, "")}')).toBe('s.replace(/[}]/g, "")')
+  })
+
+  it('除算を正規表現と誤認しない', () => {
+    expect(expressionBody('{a / b / c}')).toBe('a / b / c')
+    expect(expressionBody('{(a) / 2 + x[0] / 3}')).toBe('(a) / 2 + x[0] / 3')
+  })
+
+  it('式内のマークアップの閉じタグを正規表現と誤認しない', () => {
+    expect(expressionBody('{items.map(item => <li>{item}</li>)}')).toBe(
+      'items.map(item => <li>{item}</li>)',
+    )
+  })
+
+  it('式内のマークアップのテキストをコードとして扱わない', () => {
+    expect(expressionBody("{items.map(i => <li title='}'>Don't {i} / 2</li>)} rest")).toBe(
+      "items.map(i => <li title='}'>Don't {i} / 2</li>)",
+    )
+    expect(expressionBody('{ok && <p>a<img src={x}>b</p>}')).toBe('ok && <p>a<img src={x}>b</p>')
+  })
+
+  it('比較演算子の<をマークアップと誤認しない', () => {
+    expect(expressionBody("{a <b ? 'x' : '}'}")).toBe("a <b ? 'x' : '}'")
+  })
+
+  it('閉じられていない式は-1を返す', () => {
+    expect(findExpressionEnd('{a + {b}', 1)).toBe(-1)
+  })
+})
+
+describe('skipMarkup', () => {
+  it('対応する閉じタグまでを1つの要素として読み飛ばす', () => {
+    const source = '<ul><li>a</li><li>b</li></ul>)'
+    expect(skipMarkup(source, 0)).toBe(source.length - 1)
+  })
+
+  it('閉じタグがなければ式の終わりで止まる', () => {
+    expect(skipMarkup('<li>a)}', 0)).toBe(6)
+  })
+})
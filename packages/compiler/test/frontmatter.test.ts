@@ -0,0 +1,279 @@
+import { describe, expect, it } from 'vitest'
+import type { Diagnostic } from '../src/diagnostics/index.js'
+import { analyzeFrontmatter } from '../src/parser/frontmatter.js'
+import type { FrontmatterAnalysis } from '../src/parser/index.js'
+import { parse } from '../src/parser/index.js'
+
+/**
+ * frontmatter のコードを解析するヘルパー
+ */
+function analyze(code: string): FrontmatterAnalysis {
+  const source = `---\n${code}\n---\n<div />`
+  return analyzeFrontmatter(source, 4, 4 + code.length)
+}
+
+describe('analyzeFrontmatter', () => {
+  it('default・named・namespaceのimportを記録する', () => {
+    const { imports } = analyze(
+      [
+        "import Layout from '../layouts/Layout.astro'",
+        "import { getCollection, render as renderEntry } from 'astro:content'",
+        "import * as utils from '../utils'",
+        "import '../styles/global.css'",
+      ].join('\n'),
+    )
+
+    expect(imports.map(({ position, ...rest }) => rest)).toEqual([
+      {
+        source: '../layouts/Layout.astro',
+        specifiers: [{ kind: 'default', local: 'Layout', typeOnly: false }],
+        typeOnly: false,
+      },
+      {
+        source: 'astro:content',
+        specifiers: [
+          { kind: 'named', local: 'getCollection', imported: 'getCollection', typeOnly: false },
+          { kind: 'named', local: 'renderEntry', imported: 'render', typeOnly: false },
+        ],
+        typeOnly: false,
+      },
+      {
+        source: '../utils',
+        specifiers: [{ kind: 'namespace', local: 'utils', typeOnly: false }],
+        typeOnly: false,
+      },
+      { source: '../styles/global.css', specifiers: [], typeOnly: false },
+    ])
+    expect(imports[1].position?.start).toEqual({ offset: 49, line: 3, column: 1 })
+  })
+
+  it('型のみのimportを区別する', () => {
+    const { imports } = analyze(
+      [
+        "import type { GetStaticPaths } from 'astro'",
+        "import { getCollection, type CollectionEntry } from 'astro:content'",
+        "import type from './type'",
+      ].join('\n'),
+    )
+
+    expect(imports[0].typeOnly).toBe(true)
+    expect(imports[0].specifiers[0].typeOnly).toBe(true)
+    expect(imports[1].typeOnly).toBe(false)
+    expect(imports[1].specifiers.map(specifier => specifier.typeOnly)).toEqual([false, true])
+    // `type` という名前のdefault import
+    expect(imports[2].specifiers).toEqual([{ kind: 'default', local: 'type', typeOnly: false }])
+  })
+
+  it('トップレベルで宣言された名前とexportを記録する', () => {
+    const analysis = analyze(
+      [
+        'export async function getStaticPaths() { return [] }',
+        'export const prerender = true',
+        'const { title, tags = [], ...rest } = Astro.props',
+        'let [first] = items',
+        'function helper() { const inner = 1 }',
+        'class Store {}',
+        'export { helper as format }',
+      ].join('\n'),
+    )
+
+    expect(analysis.bindings).toEqual([
+      'getStaticPaths',
+      'prerender',
+      'title',
+      'tags',
+      'rest',
+      'first',
+      'helper',
+      'Store',
+    ])
+    expect(analysis.exports).toEqual(['getStaticPaths', 'prerender', 'format'])
+  })
+
+  it('Props interfaceのプロパティを記録する', () => {
+    const { props } = analyze(
+      [
+        'export interface Props {',
+        '  title: string',
+        '  tags?: string[];',
+        "  entry: CollectionEntry<'blog'>",
+        '  onClick?: (event: MouseEvent) => void',
+        '}',
+      ].join('\n'),
+    )
+
+    expect(props?.kind).toBe('interface')
+    expect(props?.properties).toEqual([
+      { name: 'title', type: 'string', optional: false },
+      { name: 'tags', type: 'string[]', optional: true },
+      { name: 'entry', type: "CollectionEntry<'blog'>", optional: false },
+      { name: 'onClick', type: '(event: MouseEvent) => void', optional: true },
+    ])
+    expect(props?.position?.start.line).toBe(2)
+    expect(props?.position?.end.line).toBe(7)
+  })
+
+  it('Props type aliasを記録する', () => {
+    const { props } = analyze("type Props = { variant: 'primary' | 'secondary'; size?: number }")
+
+    expect(props).toMatchObject({
+      kind: 'type',
+      properties: [
+        { name: 'variant', type: "'primary' | 'secondary'", optional: false },
+        { name: 'size', type: 'number', optional: true },
+      ],
+    })
+  })
+
+  it('TypeScriptの型注釈があっても解析できる', () => {
+    const analysis = analyze(
+      [
+        "import type { GetStaticPaths } from 'astro'",
+        'type Item = { id: number } | null',
+        'export const getStaticPaths = (async () => {',
+        "  const posts = await getCollection<'blog'>('blog')",
+        '  return posts.map((post: Post, index?: number): Path => ({ params: { id: post.id } }))',
+        '}) satisfies GetStaticPaths',
+        'export function pick<T>(value: T, fallback?: T): T { return value ?? fallback! }',
+        'const { title } = Astro.props as Props',
+        'let items: Array<Item>= []',
+        "const el = document.querySelector<HTMLElement>('.x')!",
+        'const sizes = [1, 2] as const',
+      ].join('\n'),
+    )
+
+    expect(analysis.bindings).toEqual(['getStaticPaths', 'pick', 'title', 'items', 'el', 'sizes'])
+    expect(analysis.exports).toEqual(['getStaticPaths', 'pick'])
+  })
+
+  it('複数の宣言子・メソッド・thisパラメータ・ジェネリックなアロー関数の型を除去できる', () => {
+    const analysis = analyze(
+      [
+        'let a = 1, b: number = 2',
+        'const o = { m(value: number): string { return String(value) } }',
+        'function onClick(this: HTMLElement, event: MouseEvent) {}',
+        'const id = <T,>(value: T) => value',
+        'const load = async <T extends object>(value: T): Promise<T> => value',
+      ].join('\n'),
+    )
+
+    expect(analysis.bindings).toEqual(['a', 'b', 'o', 'onClick', 'id', 'load'])
+  })
+
+  it('enum・declare・クラスメンバーの修飾子があっても解析できる', () => {
+    const analysis = analyze(
+      [
+        "enum Color { Red, Green = 'g' }",
+        'export const enum Size { S, M }',
+        'declare const env: Record<string, string>',
+        'declare global {',
+        '  interface Window { analytics: unknown }',
+        '}',
+        'export abstract class Store<T> extends Base<T> implements Disposable {',
+        '  private readonly items: T[] = []',
+        '  static instance?: Store<unknown>',
+        '  declare name: string',
+        '  [key: string]: unknown',
+        '  constructor(private source: string, public readonly limit?: number) { super() }',
+        '  get(id: string): T',
+        '  get(id: string | number): T | undefined { return undefined }',
+        '  protected abstract load(): Promise<void>;',
+        '}',
+        'const after = true',
+      ].join('\n'),
+    )
+
+    expect(analysis.bindings).toEqual(['Color', 'Size', 'Store', 'after'])
+    expect(analysis.exports).toEqual(['Size', 'Store'])
+  })
+
+  it('Propsの交差型に含まれるオブジェクト型のプロパティを記録する', () => {
+    const { props } = analyze(
+      "type Props = HTMLAttributes<'img'> & { alt: string } & Partial<{ hidden: boolean }>",
+    )
+
+    expect(props?.properties).toEqual([{ name: 'alt', type: 'string', optional: false }])
+  })
+
+  it('構文エラーはSyntaxErrorを投げる', () => {
+    expect(() => analyze('const = 1')).toThrow(SyntaxError)
+  })
+
+  it('onSyntaxErrorを渡すと解析できない文を除いて残りを解析する', () => {
+    const errors: SyntaxError[] = []
+    const code = [
+      "import Card from './Card.astro'",
+      'const broken = <div>',
+      "const label = 'unterminated",
+      'export const prerender = true',
+    ].join('\n')
+    const source = `---\n${code}\n---\n<div />`
+    const analysis = analyzeFrontmatter(source, 4, 4 + code.length, error => errors.push(error))
+
+    expect(errors.map(error => error.message)).toEqual([
+      'Unterminated string constant (4:14)',
+      'Unexpected token (3:15)',
+    ])
+    expect(analysis.imports.map(entry => entry.source)).toEqual(['./Card.astro'])
+    expect(analysis.bindings).toEqual(['prerender'])
+    expect(analysis.exports).toEqual(['prerender'])
+  })
+})
+
+describe('parse({ analyzeFrontmatter: true })', () => {
+  it('FrontmatterNodeに解析結果を付ける', () => {
+    const source =
+      "---\nimport Card from './Card.astro'\nexport const prerender = true\n---\n<Card />"
+    const ast = parse(source, { analyzeFrontmatter: true })
+    const frontmatter = ast.children[0]
+
+    expect(frontmatter.type).toBe('Frontmatter')
+    if (frontmatter.type !== 'Frontmatter') return
+    expect(frontmatter.analysis?.imports[0]).toMatchObject({
+      source: './Card.astro',
+      position: { start: { offset: 4, line: 2, column: 1 } },
+    })
+    expect(frontmatter.analysis?.exports).toEqual(['prerender'])
+  })
+
+  it('オプションなしでは解析しない', () => {
+    const ast = parse("---\nimport Card from './Card.astro'\n---\n<Card />")
+
+    expect(ast.children[0]).not.toHaveProperty('analysis')
+  })
+
+  it('解析できない文は警告として報告し、残りの解析結果は残す', () => {
+    const diagnostics: Diagnostic[] = []
+    const ast = parse('---\nconst a = 1\nconst = 2\n---\n<div />', {
+      analyzeFrontmatter: true,
+      onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+    })
+
+    expect(ast.children[0]).toMatchObject({ analysis: { bindings: ['a'] } })
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({
+      code: 'invalid-frontmatter',
+      severity: 'warning',
+      message: 'Frontmatter could not be analyzed: Unexpected token',
+      span: { start: { offset: 22, line: 3, column: 7 } },
+    })
+  })
+
+  it('閉じられていない正規表現やJSXがあっても1つの警告を報告して解析を終える', () => {
+    for (const line of ['const re = /abc', 'const x = <div>jsx</div>']) {
+      const diagnostics: Diagnostic[] = []
+      const ast = parse(`---\nconst a = 1\n${line}\n---\n<p/>`, {
+        analyzeFrontmatter: true,
+        onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+      })
+
+      expect(ast.children[0]).toMatchObject({ analysis: { bindings: ['a'] } })
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        code: 'invalid-frontmatter',
+        message: 'Frontmatter could not be analyzed: Unterminated regular expression',
+        span: { start: { line: 3 } },
+      })
+    }
+  })
+})
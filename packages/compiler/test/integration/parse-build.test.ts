@@ -49,6 +49,16 @@ const items = ["Apple", "Banana", "Orange"]
     )
   })
 
+  it('preserveWhitespaceオプションで要素間の空白を保持する', () => {
+    const source = `<p>This is <strong>bold text</strong> and <em>italic text</em>.</p>
+<p>Second</p>`
+
+    const ast = parse(source, { preserveWhitespace: true })
+    const html = buildHTML(ast)
+
+    expect(html).toBe(source)
+  })
+
   it('自己完結型タグの正しい処理', () => {
     const source = `<div>
   <img />
@@ -92,6 +102,15 @@ const items = ["Apple", "Banana", "Orange"]
     )
   })
 
+  it('DOCTYPEと処理命令はエスケープせずに出力する', () => {
+    const source = `<!doctype html>
+<html lang="en"><body><?php echo 1 ?></body></html>`
+
+    const html = buildHTML(parse(source))
+
+    expect(html).toBe('<!doctype html><html lang="en"><body><?php echo 1 ?></body></html>')
+  })
+
   it('空の.astroファイル', () => {
     const source = ''
     const ast = parse(source)
@@ -108,4 +127,24 @@ const data = "test"
     const html = buildHTML(ast)
     expect(html).toBe('')
   })
+
+  it('式内のマークアップはエスケープして出力する', () => {
+    const ast = parse(`<ul>{items.map(item => <li title="a&b">{item} & more</li>)}</ul>`)
+
+    expect(buildHTML(ast)).toBe(
+      '<ul>{items.map(item => <li title="a&amp;b">{item}&amp; more</li>)}</ul>',
+    )
+  })
+
+  it('フラグメントは子のみを出力する', () => {
+    const ast = parse('<div><><b>a</b></><Fragment>b<Fragment /></Fragment></div>')
+
+    expect(buildHTML(ast)).toBe('<div><b>a</b>b</div>')
+  })
+
+  it('is:rawは出力せず、その他のディレクティブは属性として残す', () => {
+    const ast = parse('<Counter client:load count={1} /><pre is:raw><b>{x}</b></pre>')
+
+    expect(buildHTML(ast)).toBe('<Counter count="{1}" client:load /><pre><b>{x}</b></pre>')
+  })
 })
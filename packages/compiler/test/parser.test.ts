@@ -1,5 +1,29 @@
 import { describe, expect, it } from 'vitest'
+import { CompilerError } from '../src/diagnostics/index.js'
+import type { Diagnostic } from '../src/diagnostics/index.js'
+import type { AstroAST, AstroNode, SourceSpan } from '../src/parser/index.js'
 import { parse } from '../src/parser/index.js'
+import type { Token } from '../src/tokenizer/index.js'
+import { tokenize, tokenizeIterator } from '../src/tokenizer/index.js'
+
+/**
+ * [offset, line, column] の組から SourceSpan を作るヘルパー
+ */
+function span(start: [number, number, number], end: [number, number, number]): SourceSpan {
+  return {
+    start: { offset: start[0], line: start[1], column: start[2] },
+    end: { offset: end[0], line: end[1], column: end[2] },
+  }
+}
+
+/**
+ * Template ノードの子を取り出すヘルパー
+ */
+function templateChildren(ast: AstroAST): AstroNode[] {
+  const template = ast.children.at(-1)
+  if (template?.type !== 'Template') throw new Error('Template expected')
+  return template.children
+}
 
 describe('パーサー', () => {
   it('空のファイルをパースできる', () => {
@@ -8,7 +32,8 @@ describe('パーサー', () => {
 
     expect(ast).toEqual({
       type: 'Program',
-      children: [],
+      children: [{ type: 'Template', children: [], position: span([0, 1, 1], [0, 1, 1]) }],
+      position: span([0, 1, 1], [0, 1, 1]),
     })
   })
 
@@ -20,18 +45,28 @@ describe('パーサー', () => {
       type: 'Program',
       children: [
         {
-          type: 'Element',
-          name: 'div',
-          attributes: [],
-          selfClosing: false,
+          type: 'Template',
           children: [
             {
-              type: 'Text',
-              value: 'Hello World',
+              type: 'Element',
+              name: 'div',
+              kind: 'element',
+              attributes: [],
+              selfClosing: false,
+              children: [
+                {
+                  type: 'Text',
+                  value: 'Hello World',
+                  position: span([5, 1, 6], [16, 1, 17]),
+                },
+              ],
+              position: span([0, 1, 1], [22, 1, 23]),
             },
           ],
+          position: span([0, 1, 1], [22, 1, 23]),
         },
       ],
+      position: span([0, 1, 1], [22, 1, 23]),
     })
   })
 
@@ -49,8 +84,11 @@ const description = 'World'
           type: 'Frontmatter',
           value: `const title = 'Hello'
 const description = 'World'`,
+          position: span([0, 1, 1], [57, 4, 4]),
         },
+        { type: 'Template', children: [], position: span([57, 4, 4], [57, 4, 4]) },
       ],
+      position: span([0, 1, 1], [57, 4, 4]),
     })
   })
 
@@ -68,32 +106,46 @@ const title = 'My Page'
         {
           type: 'Frontmatter',
           value: "const title = 'My Page'",
+          position: span([0, 1, 1], [31, 3, 4]),
         },
         {
-          type: 'Element',
-          name: 'h1',
-          attributes: [],
-          selfClosing: false,
+          type: 'Template',
           children: [
             {
-              type: 'Text',
-              value: 'Welcome',
+              type: 'Element',
+              name: 'h1',
+              kind: 'element',
+              attributes: [],
+              selfClosing: false,
+              children: [
+                {
+                  type: 'Text',
+                  value: 'Welcome',
+                  position: span([36, 4, 5], [43, 4, 12]),
+                },
+              ],
+              position: span([32, 4, 1], [48, 4, 17]),
             },
-          ],
-        },
-        {
-          type: 'Element',
-          name: 'p',
-          attributes: [],
-          selfClosing: false,
-          children: [
             {
-              type: 'Text',
-              value: 'This is a test',
+              type: 'Element',
+              name: 'p',
+              kind: 'element',
+              attributes: [],
+              selfClosing: false,
+              children: [
+                {
+                  type: 'Text',
+                  value: 'This is a test',
+                  position: span([52, 5, 4], [66, 5, 18]),
+                },
+              ],
+              position: span([49, 5, 1], [70, 5, 22]),
             },
           ],
+          position: span([32, 4, 1], [70, 5, 22]),
         },
       ],
+      position: span([0, 1, 1], [70, 5, 22]),
     })
   })
 
@@ -105,21 +157,89 @@ const title = 'My Page'
       type: 'Program',
       children: [
         {
-          type: 'Element',
-          name: 'div',
-          attributes: [],
-          selfClosing: false,
+          type: 'Template',
           children: [
             {
-              type: 'Expression',
-              value: 'count',
+              type: 'Element',
+              name: 'div',
+              kind: 'element',
+              attributes: [],
+              selfClosing: false,
+              children: [
+                {
+                  type: 'Expression',
+                  value: 'count',
+                  position: span([5, 1, 6], [12, 1, 13]),
+                },
+              ],
+              position: span([0, 1, 1], [18, 1, 19]),
             },
           ],
+          position: span([0, 1, 1], [18, 1, 19]),
         },
       ],
+      position: span([0, 1, 1], [18, 1, 19]),
     })
   })
 
+  it('属性の名前と値の位置を記録する', () => {
+    const source = '<a href="/about" id={id} hidden>About</a>'
+    const ast = parse(source)
+    const element = templateChildren(ast)[0]
+
+    expect(element.type).toBe('Element')
+    if (element.type !== 'Element') return
+
+    expect(element.attributes).toEqual([
+      {
+        type: 'Attribute',
+        name: 'href',
+        value: '/about',
+        kind: 'quoted',
+        position: span([3, 1, 4], [16, 1, 17]),
+        namePosition: span([3, 1, 4], [7, 1, 8]),
+        valuePosition: span([8, 1, 9], [16, 1, 17]),
+      },
+      {
+        type: 'Attribute',
+        name: 'id',
+        value: {
+          type: 'Expression',
+          value: 'id',
+          position: span([20, 1, 21], [24, 1, 25]),
+        },
+        kind: 'expression',
+        position: span([17, 1, 18], [24, 1, 25]),
+        namePosition: span([17, 1, 18], [19, 1, 20]),
+        valuePosition: span([20, 1, 21], [24, 1, 25]),
+      },
+      {
+        type: 'Attribute',
+        name: 'hidden',
+        value: '',
+        kind: 'empty',
+        position: span([25, 1, 26], [31, 1, 32]),
+        namePosition: span([25, 1, 26], [31, 1, 32]),
+      },
+    ])
+  })
+
+  it('複数行にわたるノードの行と列を記録する', () => {
+    const source = `<ul>
+  <li>{item}</li>
+</ul>`
+    const ast = parse(source)
+    const list = templateChildren(ast)[0]
+    if (list.type !== 'Element') throw new Error('Element expected')
+    const item = list.children[0]
+
+    expect(list.position).toEqual(span([0, 1, 1], [28, 3, 6]))
+    expect(item.position).toEqual(span([7, 2, 3], [22, 2, 18]))
+    expect(source.slice(item.position?.start.offset, item.position?.end.offset)).toBe(
+      '<li>{item}</li>',
+    )
+  })
+
   it('ASTのスナップショットを生成する', () => {
     const source = `---
 const items = ['apple', 'banana', 'orange']
@@ -139,4 +259,611 @@ const items = ['apple', 'banana', 'orange']
     const ast = parse(source)
     expect(ast).toMatchSnapshot()
   })
+
+  it('コメントをCommentノードとしてパースする', () => {
+    const source = '<!--[if IE]><p>Old</p><![endif]--><div><!-- note --></div>'
+    const ast = parse(source)
+
+    expect(templateChildren(ast)[0]).toEqual({
+      type: 'Comment',
+      value: '[if IE]><p>Old</p><![endif]',
+      position: span([0, 1, 1], [34, 1, 35]),
+    })
+    expect(templateChildren(ast)[1]).toMatchObject({
+      type: 'Element',
+      children: [{ type: 'Comment', value: ' note ' }],
+    })
+  })
+
+  it('DOCTYPEをDoctypeノードとしてパースする', () => {
+    const ast = parse('<!DOCTYPE html>\n<html></html>')
+
+    expect(templateChildren(ast)[0]).toEqual({
+      type: 'Doctype',
+      value: 'html',
+      raw: '<!DOCTYPE html>',
+      position: span([0, 1, 1], [15, 1, 16]),
+    })
+    expect(templateChildren(ast)[1]).toMatchObject({ type: 'Element', name: 'html' })
+  })
+
+  it('style要素とis:raw要素の中身を単一の生テキストとしてパースする', () => {
+    const source = '<style>a > b { color: red }</style><code is:raw>{<b>}</code>'
+    const ast = parse(source)
+
+    expect(templateChildren(ast)).toMatchObject([
+      {
+        type: 'Element',
+        name: 'style',
+        kind: 'element',
+        children: [{ type: 'Text', value: 'a > b { color: red }', raw: true }],
+      },
+      {
+        type: 'Element',
+        name: 'code',
+        kind: 'element',
+        children: [{ type: 'Text', value: '{<b>}', raw: true }],
+      },
+    ])
+  })
+
+  it('title要素の中身はタグとして解析しないが、生テキストとしては扱わない', () => {
+    const ast = parse('<title>A <b> & {name}</title>')
+
+    expect(templateChildren(ast)[0]).toMatchObject({
+      name: 'title',
+      children: [
+        { type: 'Text', value: 'A <b> & ' },
+        { type: 'Expression', value: 'name' },
+      ],
+    })
+    expect(templateChildren(ast)[0]).not.toHaveProperty('children.0.raw')
+  })
+
+  it('parseExpressionsオプションで式のESTreeを保持する', () => {
+    const source = '<p>{user.name}</p>'
+    const ast = parse(source, { parseExpressions: true })
+    const paragraph = templateChildren(ast)[0]
+    if (paragraph.type !== 'Element') throw new Error('Element expected')
+
+    expect(paragraph.children[0]).toMatchObject({
+      type: 'Expression',
+      value: 'user.name',
+      ast: {
+        type: 'MemberExpression',
+        object: { type: 'Identifier', name: 'user' },
+        property: { type: 'Identifier', name: 'name' },
+        start: 4,
+        end: 13,
+      },
+    })
+  })
+
+  it('式のESTreeの位置はファイル内の位置を指す', () => {
+    const source = '<ul>\n  <li>{\n    items.length\n  }</li>\n</ul>\n<a href=`/${slug}`/>'
+    const ast = parse(source, { parseExpressions: true })
+    const [list, link] = templateChildren(ast)
+    if (list.type !== 'Element' || link.type !== 'Element') throw new Error('Element expected')
+    const item = list.children[0]
+    if (item.type !== 'Element') throw new Error('Element expected')
+
+    expect(item.children[0]).toMatchObject({
+      ast: {
+        type: 'MemberExpression',
+        start: 17,
+        end: 29,
+        loc: { start: { line: 3, column: 4 }, end: { line: 3, column: 16 } },
+        object: { start: 17, loc: { start: { line: 3, column: 4 } } },
+      },
+    })
+    expect(link.attributes[0]).toMatchObject({
+      value: {
+        ast: { type: 'TemplateLiteral', start: 53, loc: { start: { line: 6, column: 8 } } },
+      },
+    })
+  })
+
+  it('ESTreeはデフォルトでは生成せず、解析できない式には付与しない', () => {
+    const withoutFlag = parse('<p>{a + b}</p>')
+    const invalid = parse('<p>{a +}</p><p>{a; b}</p>', { parseExpressions: true })
+    const expressions = [withoutFlag, invalid].flatMap(ast =>
+      templateChildren(ast).flatMap(child => (child.type === 'Element' ? child.children : [])),
+    )
+
+    expect(expressions).toHaveLength(3)
+    for (const expression of expressions) {
+      expect(expression).not.toHaveProperty('ast')
+    }
+  })
+
+  it('属性値の書き方をkindとして記録する', () => {
+    const ast = parse(`<input type="text" value=3 disabled title="" data-id={id} />`)
+    const input = templateChildren(ast)[0]
+    if (input.type !== 'Element') throw new Error('Element expected')
+
+    expect(input.attributes.map(attr => [attr.name, attr.value, attr.kind])).toEqual([
+      ['type', 'text', 'quoted'],
+      ['value', '3', 'unquoted'],
+      ['disabled', '', 'empty'],
+      ['title', '', 'quoted'],
+      ['data-id', expect.objectContaining({ type: 'Expression', value: 'id' }), 'expression'],
+    ])
+  })
+
+  it('引用符なしの属性値の末尾の/は値に含め、自己終了タグとして扱わない', () => {
+    const ast = parse('<a href=/foo/>x</a><p>{ok && <a href=/bar/>y</a>}</p><img src=a.png />')
+
+    expect(templateChildren(ast)).toMatchObject([
+      {
+        name: 'a',
+        attributes: [{ value: '/foo/' }],
+        selfClosing: false,
+        children: [{ value: 'x' }],
+      },
+      {
+        name: 'p',
+        children: [
+          {
+            type: 'Expression',
+            value: 'ok && <a href=/bar/>y</a>',
+            children: [
+              { type: 'Text' },
+              { name: 'a', attributes: [{ value: '/bar/' }], children: [{ value: 'y' }] },
+            ],
+          },
+        ],
+      },
+      { name: 'img', attributes: [{ value: 'a.png' }], selfClosing: true },
+    ])
+  })
+
+  it('省略形属性とスプレッド属性をパースする', () => {
+    const ast = parse('<Card {title} {...props} class="x" />')
+    const card = templateChildren(ast)[0]
+    if (card.type !== 'Element') throw new Error('Element expected')
+
+    expect(card.attributes).toMatchObject([
+      {
+        type: 'ShorthandAttribute',
+        name: 'title',
+        value: { type: 'Expression', value: 'title' },
+        position: span([6, 1, 7], [13, 1, 14]),
+      },
+      {
+        type: 'SpreadAttribute',
+        value: {
+          type: 'Expression',
+          value: 'props',
+          position: span([18, 1, 19], [23, 1, 24]),
+        },
+        position: span([14, 1, 15], [24, 1, 25]),
+      },
+      { type: 'Attribute', name: 'class', value: 'x' },
+    ])
+
+    const spaced = templateChildren(parse('<Card {...\n  props } />'))[0]
+    if (spaced.type !== 'Element') throw new Error('Element expected')
+    expect(spaced.attributes[0]).toMatchObject({
+      value: { value: 'props', position: span([13, 2, 3], [18, 2, 8]) },
+    })
+  })
+
+  it('識別子でない省略形属性はエラーとして報告する', () => {
+    expect(() => parse('<Card {a.b} />')).toThrow('{a.b} is not a valid shorthand attribute')
+
+    const ast = parse('<Card {a.b} {fn()} {$ok} />', { recover: true })
+    expect(ast.diagnostics).toMatchObject([
+      {
+        code: 'invalid-shorthand-attribute',
+        severity: 'error',
+        span: span([6, 1, 7], [11, 1, 12]),
+      },
+      { code: 'invalid-shorthand-attribute', message: '{fn()} is not a valid shorthand attribute' },
+    ])
+  })
+
+  it('テンプレートリテラルの属性値を式として保持する', () => {
+    const ast = parse('<a href=`/posts/${slug}` class="x">Post</a>', { parseExpressions: true })
+    const link = templateChildren(ast)[0]
+    if (link.type !== 'Element') throw new Error('Element expected')
+
+    expect(link.attributes[0]).toMatchObject({
+      name: 'href',
+      kind: 'template-literal',
+      value: {
+        type: 'Expression',
+        value: '`/posts/${slug}`',
+        ast: { type: 'TemplateLiteral', expressions: [{ type: 'Identifier', name: 'slug' }] },
+      },
+      valuePosition: span([8, 1, 9], [24, 1, 25]),
+    })
+    expect(link.attributes[1]).toMatchObject({ name: 'class', value: 'x' })
+  })
+
+  it('渡されたトークン列を必要になった分だけ読み進めてパースする', () => {
+    const source = `<p>a</x>${'<p>b</p>'.repeat(1000)}`
+    let pulled = 0
+    function* counted(tokens: Iterable<Token>) {
+      for (const token of tokens) {
+        pulled++
+        yield token
+      }
+    }
+    const pulledAtWarning: number[] = []
+    const ast = parse(source, {
+      tokens: counted(tokenizeIterator(source)),
+      onDiagnostic: () => pulledAtWarning.push(pulled),
+    })
+
+    expect(ast).toEqual(parse(source))
+    expect(pulled).toBe(tokenize(source).length)
+    // 対応しない</x>を報告した時点では、その先のトークンはまだ読まれていない
+    expect(pulledAtWarning).toHaveLength(1)
+    expect(pulledAtWarning[0]).toBeLessThan(20)
+  })
+
+  it('EOFで終わらないトークン列もパースできる', () => {
+    const source = '<p>a</p>'
+    const ast = parse(source, { tokens: tokenize(source).slice(0, -1) })
+
+    expect(ast).toEqual(parse(source))
+  })
+
+  it('解析できない構文はコード付きのCompilerErrorを投げる', () => {
+    const parseError = (source: string) => {
+      try {
+        parse(source)
+      } catch (error) {
+        return error
+      }
+      throw new Error('parse() should have thrown')
+    }
+
+    const expression = parseError('<p>\n  {name\n</p>')
+    expect(expression).toBeInstanceOf(CompilerError)
+    expect(expression).toMatchObject({
+      code: 'unterminated-expression',
+      span: span([6, 2, 3], [7, 2, 4]),
+    })
+    expect((expression as CompilerError).message).toContain('> 2 |   {name')
+
+    expect(parseError('---\nconst a = 1\n')).toMatchObject({ code: 'unterminated-frontmatter' })
+  })
+
+  it('onDiagnosticでエラーを投げる前の診断を受け取る', () => {
+    const diagnostics: Diagnostic[] = []
+    expect(() =>
+      parse('<p title="a>b</p>', { onDiagnostic: diagnostic => diagnostics.push(diagnostic) }),
+    ).toThrow(CompilerError)
+
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['unterminated-attribute-value'])
+  })
+
+  it('recoverオプションでは途中までのASTと診断を返す', () => {
+    const ast = parse('---\nconst a = 1\n<div>{a', { recover: true })
+
+    expect(ast.children[0]).toEqual({
+      type: 'Frontmatter',
+      value: 'const a = 1\n<div>{a',
+      position: span([0, 1, 1], [23, 3, 8]),
+    })
+    expect(templateChildren(ast)).toEqual([])
+    expect(ast.diagnostics.map(diagnostic => diagnostic.code)).toEqual(['unterminated-frontmatter'])
+
+    const expression = parse('<div>\n  {items.map(i => i)\n</div>', { recover: true })
+    const div = templateChildren(expression)[0]
+    if (div.type !== 'Element') throw new Error('Element expected')
+    expect(div.children[0]).toMatchObject({
+      type: 'Expression',
+      value: 'items.map(i => i)\n</div>',
+    })
+    expect(expression.diagnostics).toMatchObject([
+      { code: 'unterminated-expression', severity: 'error', span: span([8, 2, 3], [9, 2, 4]) },
+      { code: 'unclosed-element', severity: 'warning', span: span([0, 1, 1], [4, 1, 5]) },
+    ])
+  })
+
+  it('閉じ忘れと対応しない閉じタグを修復して警告する', () => {
+    const ast = parse('<div><span>a</div><p>b</p></em>', { recover: true })
+
+    expect(templateChildren(ast)).toMatchObject([
+      {
+        name: 'div',
+        position: span([0, 1, 1], [18, 1, 19]),
+        children: [{ name: 'span', position: span([5, 1, 6], [12, 1, 13]) }],
+      },
+      { name: 'p', children: [{ type: 'Text', value: 'b' }] },
+    ])
+    expect(ast.diagnostics).toMatchObject([
+      { code: 'unclosed-element', message: '<span> is never closed' },
+      { code: 'unexpected-close-tag', span: span([26, 1, 27], [31, 1, 32]) },
+    ])
+
+    // Without recover, warnings don't stop parsing
+    expect(templateChildren(parse('<div><span>a</div>'))).toHaveLength(1)
+  })
+
+  it('HTMLの終了タグ省略規則に従って要素を閉じる', () => {
+    // 要素だけを名前の入れ子で表す (子要素がなければ名前のみ)
+    const names = (nodes: AstroNode[]): unknown[] =>
+      nodes.flatMap(node => {
+        if (node.type !== 'Element') return []
+        const children = names(node.children)
+        return [children.length ? { [node.name]: children } : node.name]
+      })
+    const parsed = (source: string) => {
+      const ast = parse(source, { recover: true })
+      expect(ast.diagnostics).toEqual([])
+      return names(templateChildren(ast))
+    }
+
+    expect(parsed('<ul><li>a<li><b>b</b></ul>')).toEqual([{ ul: ['li', { li: ['b'] }] }])
+    expect(parsed('<div><p>a<div>b</div><p>c</div>')).toEqual([{ div: ['p', 'div', 'p'] }])
+    expect(parsed('<dl><dt>a<dd>b<dt>c</dl>')).toEqual([{ dl: ['dt', 'dd', 'dt'] }])
+    expect(parsed('<select><option>a<optgroup><option>b</select>')).toEqual([
+      { select: ['option', { optgroup: ['option'] }] },
+    ])
+    expect(parsed('<table><tr><td>a<td>b<tr><th>c</table>')).toEqual([
+      { table: [{ tr: ['td', 'td'] }, { tr: ['th'] }] },
+    ])
+  })
+
+  it('void要素は子を持たない', () => {
+    const ast = parse('<p><img src="a.png">caption<br>next</p>', { recover: true })
+
+    expect(ast.diagnostics).toEqual([])
+    expect(templateChildren(ast)[0]).toMatchObject({
+      name: 'p',
+      children: [
+        { name: 'img', children: [], selfClosing: false, position: span([3, 1, 4], [20, 1, 21]) },
+        { type: 'Text', value: 'caption' },
+        { name: 'br', children: [] },
+        { type: 'Text', value: 'next' },
+      ],
+    })
+  })
+
+  it('HTML要素の名前は大文字小文字を区別せずに扱う', () => {
+    const ast = parse('<DIV><P>a<BR>b<uL><LI>c<li>d</UL></div>', { recover: true })
+
+    expect(ast.diagnostics).toEqual([])
+    expect(templateChildren(ast)[0]).toMatchObject({
+      name: 'DIV',
+      kind: 'element',
+      children: [
+        {
+          name: 'P',
+          children: [{ value: 'a' }, { name: 'BR', kind: 'element', children: [] }, { value: 'b' }],
+        },
+        { name: 'uL', children: [{ name: 'LI' }, { name: 'li' }] },
+      ],
+    })
+
+    // 大文字で始まるコンポーネントの名前は区別する
+    const component = parse('<Link>a</link>', { recover: true })
+    expect(templateChildren(component)[0]).toMatchObject({ name: 'Link', kind: 'component' })
+    expect(component.diagnostics.map(diagnostic => diagnostic.code)).toEqual([
+      'unexpected-close-tag',
+      'unclosed-element',
+    ])
+
+    const expression = parse('<p>{a && <BR>}{b && <Div>x</Div>}</p>')
+    expect(templateChildren(expression)[0]).toMatchObject({
+      children: [
+        { children: [{ value: 'a && ' }, { name: 'BR' }] },
+        { children: [{ value: 'b && ' }, { name: 'Div', children: [{ value: 'x' }] }] },
+      ],
+    })
+  })
+
+  it('対応しない閉じタグは診断として報告する', () => {
+    const diagnostics: Diagnostic[] = []
+    const ast = parse('<section><h1>a</h1></div></section>', {
+      onDiagnostic: diagnostic => diagnostics.push(diagnostic),
+    })
+
+    expect(templateChildren(ast)).toMatchObject([{ name: 'section', children: [{ name: 'h1' }] }])
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'unexpected-close-tag',
+        severity: 'warning',
+        message: '</div> has no matching opening tag',
+        span: span([19, 1, 20], [25, 1, 26]),
+      },
+    ])
+  })
+
+  it('式内のマークアップをコード片と要素の子としてパースする', () => {
+    const ast = parse("<ul>{posts.map(p => <li class={p.kind}>Don't {p.title}</li>)}</ul>")
+    const list = templateChildren(ast)[0]
+    if (list.type !== 'Element') throw new Error('Element expected')
+
+    expect(list.children).toMatchObject([
+      {
+        type: 'Expression',
+        value: "posts.map(p => <li class={p.kind}>Don't {p.title}</li>)",
+        children: [
+          {
+            type: 'Text',
+            value: 'posts.map(p => ',
+            raw: true,
+            position: span([5, 1, 6], [20, 1, 21]),
+          },
+          {
+            type: 'Element',
+            name: 'li',
+            kind: 'element',
+            attributes: [{ name: 'class', value: { type: 'Expression', value: 'p.kind' } }],
+            children: [
+              { type: 'Text', value: "Don't " },
+              { type: 'Expression', value: 'p.title' },
+            ],
+          },
+          { type: 'Text', value: ')', raw: true },
+        ],
+      },
+    ])
+  })
+
+  it('式内の閉じられていないマークアップは式の終わりで閉じる', () => {
+    const ast = parse('<ul>{items.map(i => <span>{i})}</ul>', { recover: true })
+    const list = templateChildren(ast)[0]
+    if (list.type !== 'Element') throw new Error('Element expected')
+
+    // JSXと同様に、閉じタグのない要素の後の ) は要素のテキストになる
+    expect(list.children).toMatchObject([
+      {
+        type: 'Expression',
+        children: [
+          { type: 'Text', value: 'items.map(i => ' },
+          {
+            type: 'Element',
+            name: 'span',
+            kind: 'element',
+            children: [
+              { type: 'Expression', value: 'i' },
+              { type: 'Text', value: ')' },
+            ],
+          },
+        ],
+      },
+    ])
+    expect(ast.diagnostics).toMatchObject([{ code: 'unclosed-element' }])
+  })
+
+  it('要素の名前からkindを判定する', () => {
+    const ast = parse('<div><Layout /><UI.Button /><my-widget /><Fragment /></div>')
+    const div = templateChildren(ast)[0]
+    if (div.type !== 'Element') throw new Error('Element expected')
+
+    expect(div.kind).toBe('element')
+    expect(div.children.map(child => child.type === 'Element' && [child.name, child.kind])).toEqual(
+      [
+        ['Layout', 'component'],
+        ['UI.Button', 'component'],
+        ['my-widget', 'custom-element'],
+        ['Fragment', 'fragment'],
+      ],
+    )
+  })
+
+  it('<>...</>を名前のないフラグメントとしてパースする', () => {
+    const ast = parse('<ul>{items.map(item => <><li>{item}</li></>)}</ul>', { recover: true })
+
+    expect(ast.diagnostics).toEqual([])
+    expect(templateChildren(ast)[0]).toMatchObject({
+      name: 'ul',
+      children: [
+        {
+          type: 'Expression',
+          children: [
+            { type: 'Text', value: 'items.map(item => ' },
+            {
+              type: 'Element',
+              name: '',
+              kind: 'fragment',
+              children: [{ type: 'Element', name: 'li' }],
+              position: { start: { offset: 23 }, end: { offset: 43 } },
+            },
+            { type: 'Text', value: ')' },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('ディレクティブを属性から分けて型付きで保持する', () => {
+    const source =
+      '<Counter client:media="(max-width: 600px)" set:html={html} class:list={[a, { b }]} title="x" />'
+    const ast = parse(source)
+    const counter = templateChildren(ast)[0]
+    if (counter.type !== 'Element') throw new Error('Element expected')
+
+    expect(counter.attributes).toMatchObject([{ name: 'title', value: 'x' }])
+    expect(counter.directives).toMatchObject([
+      {
+        type: 'Directive',
+        namespace: 'client',
+        name: 'media',
+        value: '(max-width: 600px)',
+        kind: 'quoted',
+        position: span([9, 1, 10], [42, 1, 43]),
+      },
+      { namespace: 'set', name: 'html', value: { type: 'Expression', value: 'html' } },
+      { namespace: 'class', name: 'list', value: { type: 'Expression', value: '[a, { b }]' } },
+    ])
+  })
+
+  it('ディレクティブでない名前空間付き属性はそのまま残す', () => {
+    const ast = parse('<svg><use xlink:href="#icon" /></svg><p>x</p>')
+    const use =
+      templateChildren(ast)[0].type === 'Element' ? templateChildren(ast)[0].children[0] : undefined
+
+    expect(use).toMatchObject({ name: 'use', attributes: [{ name: 'xlink:href' }] })
+    expect(use).not.toHaveProperty('directives')
+    expect(templateChildren(ast)[1]).not.toHaveProperty('directives')
+  })
+
+  it('誤ったディレクティブと未知のディレクティブを警告として報告する', () => {
+    const ast = parse(
+      [
+        '<div client:load set:text></div>',
+        '<Counter client:hover />',
+        '<script define:vars={{ a }} is:inline></script>',
+        '<p define:vars={{ a }}>x</p>',
+      ].join('\n'),
+      { recover: true },
+    )
+
+    expect(ast.diagnostics.map(({ code, message }) => [code, message])).toEqual([
+      ['invalid-directive', 'client:load only works on a component, but <div> is an HTML element'],
+      ['invalid-directive', 'set:text needs a value'],
+      ['unknown-directive', 'Unknown directive client:hover'],
+      ['invalid-directive', 'define:vars only works on <script> and <style>, not <p>'],
+    ])
+    expect(ast.diagnostics[0].span).toEqual(span([5, 1, 6], [16, 1, 17]))
+    // 未知のディレクティブは属性として残る
+    expect(templateChildren(ast)[1]).toMatchObject({ attributes: [{ name: 'client:hover' }] })
+  })
+
+  it('ファイル先頭以外のフロントマターはエラーとして報告し、ASTに含めない', () => {
+    const source = '<h1>Title</h1>\n---\nconst a = 1\n---\n<p>x</p>'
+
+    expect(() => parse(source)).toThrow('Frontmatter must be at the top of the file')
+
+    const ast = parse(source, { recover: true })
+    expect(ast.children.map(child => child.type)).toEqual(['Template'])
+    expect(templateChildren(ast)).toMatchObject([{ name: 'h1' }, { name: 'p' }])
+    expect(ast.diagnostics).toMatchObject([
+      { code: 'misplaced-frontmatter', severity: 'error', span: span([15, 2, 1], [34, 4, 4]) },
+    ])
+  })
+
+  it('要素の中の---で囲まれた行はテキストとして扱う', () => {
+    const ast = parse('<pre><code>\n---\ntitle: Hello\n---\n</code></pre>')
+
+    expect(ast.diagnostics).toBeUndefined()
+    expect(templateChildren(ast)[0]).toMatchObject({
+      name: 'pre',
+      children: [{ name: 'code', children: [{ type: 'Text', value: '---\ntitle: Hello\n---' }] }],
+    })
+
+    const lossless = parse('<pre>a\n---\nb\n---\nc</pre>', { preserveWhitespace: true })
+    expect(templateChildren(lossless)[0]).toMatchObject({
+      children: [{ type: 'Text', value: 'a\n---\nb\n---\nc' }],
+    })
+  })
+
+  it('先頭に空白があるフロントマターもファイル先頭以外として扱う', () => {
+    const ast = parse('\n---\nconst a = 1\n---\n<p>x</p>', { recover: true })
+
+    expect(ast.children.map(child => child.type)).toEqual(['Template'])
+    expect(ast.diagnostics.map(diagnostic => diagnostic.code)).toEqual(['misplaced-frontmatter'])
+  })
+
+  it('閉じられていない---の行はテキストとして扱う', () => {
+    const ast = parse('<p>a</p>\n---\n<p>b</p>')
+
+    expect(templateChildren(ast).map(child => child.type)).toEqual(['Element', 'Text', 'Element'])
+  })
 })
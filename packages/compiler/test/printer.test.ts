@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { parse } from '../src/parser/index.js'
+import { print } from '../src/printer/index.js'
+
+const source = `---
+import Counter from './Counter.astro'
+const { items } = Astro.props
+---
+<!DOCTYPE html>
+<html lang="en">
+  <head><meta charset="utf-8" /><title>Tom &amp; Jerry</title></head>
+  <body class='a "b"'>
+    <Counter client:load count={1} {...rest} {title} />
+    <ul>{items.map(item => <li data-id=\${item.id}>{item.name}</li>)}</ul>
+    <input type=checkbox disabled>
+    <a href=\`/posts/\${slug}\`>Read</a>
+    <>
+      <my-widget set:html={html}></my-widget>
+    </>
+    <!-- note -->
+  </body>
+</html>`
+
+describe('print', () => {
+  it('空白を保持したASTから元のソースを再生成する', () => {
+    expect(print(parse(source, { preserveWhitespace: true }))).toBe(source)
+  })
+
+  it('空白を保持しないASTも同じ木に再パースできるソースにする', () => {
+    const printed = print(parse(source))
+
+    expect(print(parse(printed))).toBe(printed)
+    expect(printed).toContain('---\n<!DOCTYPE html><html lang="en"><head>')
+  })
+
+  it('自己終了タグ・ディレクティブ・省略形の属性を書かれた形で出力する', () => {
+    expect(print(parse('<Card client:visible={{ rootMargin }} title=x {title}/>'))).toBe(
+      '<Card client:visible={{ rootMargin }} title=x {title} />',
+    )
+    expect(print(parse('<br><img src="a.png"/><p is:raw>{x}</p>'))).toBe(
+      '<br><img src="a.png" /><p is:raw>{x}</p>',
+    )
+  })
+
+  it('タグ内の空白・引用符・省略された終了タグは正規化して出力する', () => {
+    const printWithWhitespace = (code: string) => print(parse(code, { preserveWhitespace: true }))
+
+    expect(printWithWhitespace('<div\n  class="a"\n  id={b}\n>x</div >')).toBe(
+      '<div class="a" id={b}>x</div>',
+    )
+    expect(printWithWhitespace('<Comp   client:load\n/>')).toBe('<Comp client:load />')
+    expect(printWithWhitespace(`<a href='x' title='"y"'>t</a>`)).toBe(
+      '<a href="x" title=\'"y"\'>t</a>',
+    )
+    expect(printWithWhitespace('<ul><li>a<li>b</ul>')).toBe('<ul><li>a</li><li>b</li></ul>')
+    expect(printWithWhitespace('<P>x</p>')).toBe('<P>x</P>')
+    expect(printWithWhitespace('<p>{ a }</p>')).toBe('<p>{a}</p>')
+    expect(printWithWhitespace('<!doctype  html>')).toBe('<!doctype  html>')
+  })
+})
+
+describe('print(ast, { format: true })', () => {
+  it('ブロック要素を入れ子に応じてインデントし、短い要素は1行にまとめる', () => {
+    const ast = parse(source, { preserveWhitespace: true })
+
+    expect(print(ast, { format: true, indent: '\t' })).toBe(`---
+import Counter from './Counter.astro'
+const { items } = Astro.props
+---
+
+<!DOCTYPE html>
+<html lang="en">
+\t<head>
+\t\t<meta charset="utf-8" />
+\t\t<title>Tom &amp; Jerry</title>
+\t</head>
+\t<body class='a "b"'>
+\t\t<Counter client:load count={1} {...rest} {title} />
+\t\t<ul>{items.map(item => <li data-id=\${item.id}>{item.name}</li>)}</ul>
+\t\t<input type=checkbox disabled> <a href=\`/posts/\${slug}\`>Read</a>
+\t\t<>
+\t\t\t<my-widget set:html={html}></my-widget>
+\t\t</>
+\t\t<!-- note -->
+\t</body>
+</html>
+`)
+  })
+
+  it('行幅を超える属性とテキストを折り返す', () => {
+    const ast = parse(
+      '<p>Some <b>bold</b>   text that   goes on <em>now</em> past the width</p><Card title="A long title" description="A longer description" />',
+      { preserveWhitespace: true },
+    )
+
+    expect(print(ast, { format: true, lineWidth: 30 })).toBe(`<p>
+  Some <b>bold</b> text that
+  goes on <em>now</em> past
+  the width
+</p>
+<Card
+  title="A long title"
+  description="A longer description"
+/>
+`)
+  })
+
+  it('スクリプト・スタイル・pre要素の中身はそのまま出力する', () => {
+    const ast = parse('<div><pre>  a\n    b</pre><script>\nlet x  = 1\n</script></div>', {
+      preserveWhitespace: true,
+    })
+
+    expect(print(ast, { format: true })).toBe(
+      '<div>\n  <pre>  a\n    b</pre>\n  <script>\nlet x  = 1\n</script>\n</div>\n',
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import type { ElementNode } from '../src/parser/index.js'
+import { parse, querySelector, querySelectorAll } from '../src/parser/index.js'
+
+const source = `---
+import Card from './Card.astro'
+---
+<header id="top" class="site-header dark">
+  <nav><a href="/">Home</a><a href="https://example.com" class="external">Out</a></nav>
+</header>
+<main>
+  <section class="posts">
+    <UI.Button client:load variant="primary" />
+    <ul>{posts.map(post => <li><Card title={post.title} /></li>)}</ul>
+  </section>
+  <section class="about"><p>About <b>us</b></p></section>
+  <>
+    <my-widget data-mode="compact wide"></my-widget>
+  </>
+</main>`
+
+/**
+ * 要素を名前とクラスで表すヘルパー
+ */
+function names(elements: ElementNode[]): string[] {
+  return elements.map(element => {
+    const className = element.attributes.find(
+      attribute => attribute.type === 'Attribute' && attribute.name === 'class',
+    )
+    return className ? `${element.name}.${className.value}` : element.name
+  })
+}
+
+describe('querySelectorAll', () => {
+  const ast = parse(source)
+
+  it('型・クラス・ID・ユニバーサルセレクタで要素を探す', () => {
+    expect(names(querySelectorAll(ast, 'a'))).toEqual(['a', 'a.external'])
+    expect(names(querySelectorAll(ast, '.dark.site-header'))).toEqual(['header.site-header dark'])
+    expect(names(querySelectorAll(ast, '#top > nav'))).toEqual(['nav'])
+    expect(querySelectorAll(ast, '*')).toHaveLength(15)
+  })
+
+  it('子孫・子結合子とセレクタリストを扱う', () => {
+    expect(names(querySelectorAll(ast, 'main p b, header a.external'))).toEqual(['a.external', 'b'])
+    expect(names(querySelectorAll(ast, 'main > section > p'))).toEqual(['p'])
+    expect(querySelectorAll(ast, 'main > p')).toEqual([])
+    // 式の中のマークアップは式を囲む要素の子として扱う
+    expect(names(querySelectorAll(ast, 'ul > li > Card'))).toEqual(['Card'])
+  })
+
+  it('コンポーネント名・フラグメント・カスタム要素を型セレクタとして扱う', () => {
+    expect(names(querySelectorAll(ast, 'UI.Button'))).toEqual(['UI.Button'])
+    expect(names(querySelectorAll(ast, 'Fragment > my-widget'))).toEqual(['my-widget'])
+    expect(querySelectorAll(ast, 'card')).toEqual([])
+    expect(names(querySelectorAll(ast, 'SECTION.about'))).toEqual(['section.about'])
+  })
+
+  it('属性セレクタでディレクティブと属性値を照合する', () => {
+    expect(names(querySelectorAll(ast, '[client\\:load]'))).toEqual(['UI.Button'])
+    expect(names(querySelectorAll(ast, '[client:load][variant=primary]'))).toEqual(['UI.Button'])
+    expect(names(querySelectorAll(ast, 'a[href^="https:"]'))).toEqual(['a.external'])
+    expect(names(querySelectorAll(ast, '[data-mode~=wide]'))).toEqual(['my-widget'])
+    expect(names(querySelectorAll(ast, '[title]'))).toEqual(['Card'])
+    // 値が式の属性は存在だけを照合できる
+    expect(querySelectorAll(ast, '[title="x"]')).toEqual([])
+  })
+
+  it(':hasで子孫を持つ要素を探す', () => {
+    expect(names(querySelectorAll(ast, 'section:has([client\\:load])'))).toEqual(['section.posts'])
+    expect(names(querySelectorAll(ast, 'section:has(> p b)'))).toEqual(['section.about'])
+    expect(names(querySelectorAll(ast, ':has(> a.external)'))).toEqual(['nav'])
+    expect(querySelectorAll(ast, 'section:has(> b)')).toEqual([])
+  })
+
+  it('不正・未対応のセレクタはSyntaxErrorを投げる', () => {
+    for (const selector of ['', 'a >', 'a[href', 'div:not(p)', 'a)']) {
+      expect(() => querySelectorAll(ast, selector)).toThrow(SyntaxError)
+    }
+    expect(() => querySelectorAll(ast, 'div:first-child')).toThrow(
+      'Invalid selector "div:first-child": :first-child is not supported',
+    )
+  })
+})
+
+describe('querySelector', () => {
+  it('最初に一致した要素を返し、なければnullを返す', () => {
+    const ast = parse(source)
+
+    expect(querySelector(ast, 'section')?.attributes[0]).toMatchObject({ value: 'posts' })
+    expect(querySelector(ast, 'table')).toBeNull()
+  })
+
+  it('部分木のルート自身は候補にしない', () => {
+    const ast = parse('<div class="x"><div class="y"></div></div>')
+    const outer = querySelector(ast, 'div')
+    if (!outer) throw new Error('Element expected')
+
+    expect(names(querySelectorAll(outer, 'div'))).toEqual(['div.y'])
+    expect(names(querySelectorAll(outer, '.x > div'))).toEqual(['div.y'])
+  })
+})
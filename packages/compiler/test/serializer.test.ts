@@ -1,6 +1,10 @@
 import { describe, expect, it } from 'vitest'
-import { serializeElement, serializeText } from '../src/html-builder/serializer.js'
-import type { ElementNode, TextNode } from '../src/parser/ast.js'
+import {
+  serializeDoctype,
+  serializeElement,
+  serializeText,
+} from '../src/html-builder/serializer.js'
+import type { ElementNode, ExpressionNode, TextNode } from '../src/parser/ast.js'
 
 describe('serializer', () => {
   describe('serializeText', () => {
@@ -21,6 +25,15 @@ describe('serializer', () => {
     })
   })
 
+  describe('serializeDoctype', () => {
+    it('ソースに書かれたとおりのDOCTYPEを出力する', () => {
+      expect(serializeDoctype({ type: 'Doctype', value: 'html', raw: '<!doctype  html>' })).toBe(
+        '<!doctype  html>',
+      )
+      expect(serializeDoctype({ type: 'Doctype', value: 'html' })).toBe('<!DOCTYPE html>')
+    })
+  })
+
   describe('serializeElement', () => {
     it('属性付き要素のシリアライズ', () => {
       const node: ElementNode = {
@@ -146,5 +159,190 @@ describe('serializer', () => {
         '<button title="Click &amp; &quot;Save&quot;">Save</button>',
       )
     })
+
+    it('kindのない要素は名前からフラグメントかどうかを判定する', () => {
+      const fragment = (name: string): ElementNode => ({
+        type: 'Element',
+        name,
+        attributes: [],
+        children: [{ type: 'Text', value: 'Hi' }],
+        selfClosing: false,
+      })
+
+      expect(serializeElement(fragment('Fragment'))).toBe('Hi')
+      expect(serializeElement(fragment(''))).toBe('Hi')
+      expect(serializeElement({ ...fragment('Fragment'), kind: 'component' })).toBe(
+        '<Fragment>Hi</Fragment>',
+      )
+    })
+  })
+
+  describe('生テキスト要素', () => {
+    it('script要素の中身はエスケープしない', () => {
+      const node: ElementNode = {
+        type: 'Element',
+        name: 'script',
+        attributes: [],
+        children: [{ type: 'Text', value: 'if (a < b && c) alert("x")' }],
+        selfClosing: false,
+      }
+      expect(serializeElement(node)).toBe('<script>if (a < b && c) alert("x")</script>')
+    })
+
+    it('title要素とtextarea要素の中身はエスケープし、終了タグを注入させない', () => {
+      const text = '</title><script>alert(1)</script>'
+      const element = (name: string): ElementNode => ({
+        type: 'Element',
+        name,
+        attributes: [],
+        children: [{ type: 'Text', value: text }],
+        selfClosing: false,
+      })
+
+      expect(serializeElement(element('title'))).toBe(
+        '<title>&lt;/title&gt;&lt;script&gt;alert(1)&lt;/script&gt;</title>',
+      )
+      expect(serializeElement(element('textarea'))).toBe(
+        '<textarea>&lt;/title&gt;&lt;script&gt;alert(1)&lt;/script&gt;</textarea>',
+      )
+    })
+
+    it('is:raw属性は出力せず、中身をエスケープしない', () => {
+      const node: ElementNode = {
+        type: 'Element',
+        name: 'pre',
+        attributes: [{ name: 'is:raw', value: '' }],
+        children: [{ type: 'Text', value: '<b>{x}</b>', raw: true }],
+        selfClosing: false,
+      }
+      expect(serializeElement(node)).toBe('<pre><b>{x}</b></pre>')
+    })
+  })
+
+  describe('ディレクティブ', () => {
+    it('set:htmlとset:textの値を子の代わりに出力する', () => {
+      const node = (name: 'html' | 'text'): ElementNode => ({
+        type: 'Element',
+        name: 'div',
+        attributes: [],
+        directives: [
+          { type: 'Directive', namespace: 'set', name, value: '<b>&</b>', kind: 'quoted' },
+        ],
+        children: [{ type: 'Text', value: 'old' }],
+        selfClosing: false,
+      })
+
+      expect(serializeElement(node('html'))).toBe('<div><b>&</b></div>')
+      expect(serializeElement(node('text'))).toBe('<div>&lt;b&gt;&amp;&lt;/b&gt;</div>')
+    })
+
+    it('式のclass:listとその他のディレクティブは属性として出力する', () => {
+      const node: ElementNode = {
+        type: 'Element',
+        name: 'Counter',
+        attributes: [{ type: 'Attribute', name: 'class', value: 'a' }],
+        directives: [
+          { type: 'Directive', namespace: 'client', name: 'load', value: '', kind: 'empty' },
+          {
+            type: 'Directive',
+            namespace: 'class',
+            name: 'list',
+            value: { type: 'Expression', value: '[b, { c }]' },
+            kind: 'expression',
+          },
+          { type: 'Directive', namespace: 'is', name: 'raw', value: '', kind: 'empty' },
+        ],
+        children: [],
+        selfClosing: true,
+      }
+
+      expect(serializeElement(node)).toBe(
+        '<Counter class="a" client:load class:list="{[b, { c }]}" />',
+      )
+    })
+
+    it('静的なclass:listだけをclass属性にまとめ、式の値は文字列として連結しない', () => {
+      const node = (
+        classValue: string | ExpressionNode,
+        list: string | ExpressionNode,
+      ): ElementNode => ({
+        type: 'Element',
+        name: 'div',
+        attributes: [{ type: 'Attribute', name: 'class', value: classValue }],
+        directives: [
+          {
+            type: 'Directive',
+            namespace: 'class',
+            name: 'list',
+            value: list,
+            kind: typeof list === 'string' ? 'quoted' : 'expression',
+          },
+        ],
+        children: [],
+        selfClosing: false,
+      })
+      const expression = (value: string): ExpressionNode => ({ type: 'Expression', value })
+
+      expect(serializeElement(node('b', expression('[a]')))).toBe(
+        '<div class="b" class:list="{[a]}"></div>',
+      )
+      expect(serializeElement(node(expression('b'), 'a'))).toBe(
+        '<div class="{b}" class:list="a"></div>',
+      )
+      expect(serializeElement(node('b', 'a & c'))).toBe('<div class="b a &amp; c"></div>')
+    })
+  })
+
+  describe('属性の書式', () => {
+    it('値のない真偽属性は名前のみを出力し、空文字列の値と区別する', () => {
+      const node: ElementNode = {
+        type: 'Element',
+        name: 'input',
+        attributes: [
+          { name: 'disabled', value: '', kind: 'empty' },
+          { name: 'value', value: '', kind: 'quoted' },
+          { name: 'size', value: '3', kind: 'unquoted' },
+          { name: '@click', value: 'go' },
+        ],
+        children: [],
+        selfClosing: true,
+      }
+      expect(serializeElement(node)).toBe('<input disabled value="" size="3" @click="go" />')
+    })
+
+    it('省略形属性とスプレッド属性をソースと同じ形で出力する', () => {
+      const node: ElementNode = {
+        type: 'Element',
+        name: 'Card',
+        attributes: [
+          {
+            type: 'ShorthandAttribute',
+            name: 'title',
+            value: { type: 'Expression', value: 'title' },
+          },
+          { type: 'SpreadAttribute', value: { type: 'Expression', value: 'props' } },
+        ],
+        children: [],
+        selfClosing: true,
+      }
+      expect(serializeElement(node)).toBe('<Card {title} {...props} />')
+    })
+
+    it('テンプレートリテラルの属性値をバッククォート付きで出力する', () => {
+      const node: ElementNode = {
+        type: 'Element',
+        name: 'a',
+        attributes: [
+          {
+            name: 'href',
+            value: { type: 'Expression', value: '`/posts/${slug}`' },
+            kind: 'template-literal',
+          },
+        ],
+        children: [],
+        selfClosing: false,
+      }
+      expect(serializeElement(node)).toBe('<a href=`/posts/${slug}`></a>')
+    })
   })
 })
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeSlots, parse } from '../src/parser/index.js'
+
+describe('analyzeSlots', () => {
+  it('slot要素の定義と代替コンテンツを記録する', () => {
+    const ast = parse(
+      '<header><slot name="header"><h1>Untitled</h1></slot></header><main><slot /></main><slot name={dynamic} />',
+    )
+    const { definitions } = analyzeSlots(ast)
+
+    expect(definitions).toMatchObject([
+      {
+        name: 'header',
+        fallback: [{ type: 'Element', name: 'h1' }],
+        node: { name: 'slot' },
+        position: { start: { offset: 8 }, end: { offset: 52 } },
+      },
+      { name: 'default', fallback: [] },
+      { name: { type: 'Expression', value: 'dynamic' }, fallback: [] },
+    ])
+  })
+
+  it('コンポーネントの子が埋めるスロットを記録する', () => {
+    const ast = parse(
+      '<Card>\n  <h2 slot="title">Hi</h2>\n  <!-- note -->\n  Body {text}\n  <Fragment slot={name}>x</Fragment>\n</Card>',
+      { preserveWhitespace: true },
+    )
+    const { assignments } = analyzeSlots(ast)
+
+    expect(
+      assignments.map(({ component, slot, node }) => [component.name, slot, node.type]),
+    ).toEqual([
+      ['Card', 'title', 'Element'],
+      ['Card', 'default', 'Text'],
+      ['Card', 'default', 'Expression'],
+      ['Card', { type: 'Expression', value: 'name', position: expect.anything() }, 'Element'],
+    ])
+  })
+
+  it('HTML要素の子やネストしたコンポーネントを区別する', () => {
+    const ast = parse(
+      '<div><p slot="a">x</p></div><Layout><Card slot="sidebar"><span slot="title">t</span></Card></Layout>',
+    )
+    const { assignments } = analyzeSlots(ast)
+
+    expect(
+      assignments.map(({ component, slot, node }) => [
+        component.name,
+        slot,
+        node.type === 'Element' && node.name,
+      ]),
+    ).toEqual([
+      ['Layout', 'sidebar', 'Card'],
+      ['Card', 'title', 'span'],
+    ])
+  })
+})
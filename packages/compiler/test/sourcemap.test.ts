@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { buildHTML } from '../src/html-builder/index.js'
+import { parse } from '../src/parser/index.js'
+import { createMappedOutput } from '../src/sourcemap/index.js'
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * mappingsを [生成列, 元の行, 元の列] の行ごとの配列に戻すヘルパー(行と列は0始まり)
+ */
+function decode(mappings: string): number[][][] {
+  let line = 0
+  let column = 0
+  return mappings.split(';').map(segments => {
+    let generated = 0
+    return (segments ? segments.split(',') : []).map(segment => {
+      const values: number[] = []
+      let value = 0
+      let shift = 0
+      for (const char of segment) {
+        const digit = BASE64_DIGITS.indexOf(char)
+        value += (digit & 0b11111) << shift
+        shift += 5
+        if (!(digit & 0b100000)) {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+          value = 0
+          shift = 0
+        }
+      }
+      generated += values[0]
+      if (values.length === 1) return [generated]
+      line += values[2]
+      column += values[3]
+      return [generated, line, column]
+    })
+  })
+}
+
+describe('createMappedOutput', () => {
+  it('書き込んだテキストを位置つきでv3ソースマップにする', () => {
+    const output = createMappedOutput()
+    output.write('<p>', { offset: 40, line: 3, column: 5 })
+    output.write('</p>')
+    output.write('x', { offset: 0, line: 1, column: 1 })
+
+    expect(output.toString()).toBe('<p></p>x')
+    expect(output.toSourceMap({ file: 'page.html', sourceFileName: 'Page.astro' })).toEqual({
+      version: 3,
+      file: 'page.html',
+      sources: ['Page.astro'],
+      names: [],
+      mappings: 'AAEI,G,IAFJ',
+    })
+    expect(decode('AAEI,G,IAFJ')).toEqual([[[0, 2, 4], [3], [7, 0, 0]]])
+  })
+
+  it('改行を含むテキストの各行を元の行の先頭に対応付ける', () => {
+    const output = createMappedOutput()
+    output.write('a\nb\n', { offset: 0, line: 10, column: 3 })
+    output.write('c\n\nd')
+
+    expect(decode(output.toSourceMap().mappings)).toEqual([
+      [[0, 9, 2]],
+      [[0, 10, 0]],
+      [[0]],
+      [],
+      [],
+    ])
+  })
+
+  it('大きな差分や負の差分もVLQで表す', () => {
+    const output = createMappedOutput()
+    output.write('x'.repeat(1000), { offset: 5000, line: 500, column: 20 })
+    output.write('y', { offset: 0, line: 1, column: 1 })
+
+    expect(decode(output.toSourceMap().mappings)).toEqual([
+      [
+        [0, 499, 19],
+        [1000, 0, 0],
+      ],
+    ])
+  })
+})
+
+describe('buildHTML(ast, { sourceMap: true })', () => {
+  it('出力したノードを.astroソースの位置に対応付ける', () => {
+    const source = `---
+const items = []
+---
+<ul class="list">
+  {items.map(item => <li>{item}</li>)}
+</ul>`
+    const ast = parse(source, { preserveWhitespace: true })
+
+    const { html, map } = buildHTML(ast, { sourceMap: true, filename: 'List.astro', source })
+
+    expect(html).toBe(buildHTML(ast))
+    expect(map).toMatchObject({ sources: ['List.astro'], sourcesContent: [source] })
+    const lines = decode(map.mappings)
+    const at = (line: number, text: string) => html.split('\n')[line].indexOf(text)
+    // <ul と class属性
+    expect(lines[1]).toContainEqual([at(1, '<ul'), 3, 0])
+    expect(lines[1]).toContainEqual([at(1, 'class'), 3, 4])
+    // 式と、式の中の要素
+    expect(lines[2]).toContainEqual([at(2, '{items'), 4, 2])
+    expect(lines[2]).toContainEqual([at(2, '<li>'), 4, 21])
+    expect(lines[2]).toContainEqual([at(2, '{item}'), 4, 25])
+  })
+
+  it('位置を持たないノードは対応付けない', () => {
+    const ast = parse('<p>a</p>')
+    const template = ast.children[0]
+    if (template.type !== 'Template') throw new Error('Template expected')
+    template.children.push({ type: 'Text', value: 'added' })
+
+    const { html, map } = buildHTML(ast, { sourceMap: true })
+
+    expect(html).toBe('<p>a</p>added')
+    expect(map.sourcesContent).toBeUndefined()
+    expect(decode(map.mappings)).toEqual([[[0, 0, 0], [3, 0, 3], [4]]])
+  })
+
+  it('ファイル名がなければソースの名前をinput.astroとする', () => {
+    const { map } = buildHTML(parse('<p>a</p>'), { sourceMap: true })
+
+    expect(map.sources).toEqual(['input.astro'])
+    expect(createMappedOutput().toSourceMap({ sourceFileName: '' }).sources).toEqual([
+      'input.astro',
+    ])
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
-import { tokenize } from '../src/tokenizer/index.js'
+import type { Diagnostic } from '../src/diagnostics/index.js'
+import { tokenize, tokenizeIterator } from '../src/tokenizer/index.js'
 
 describe('トークナイザー', () => {
   it('シンプルなHTMLをトークン化できる', () => {
@@ -17,4 +18,221 @@ const title = 'Hello'
 
     expect(tokens).toMatchSnapshot()
   })
+
+  it('ロスレスモードではトークンのスパンから元のソースを復元できる', () => {
+    const source = `---
+const title = 'Hello'
+---
+<div class="a"  id={title}>
+  <strong>bold</strong> and <em>italic</em>
+</div >
+`
+    const tokens = tokenize(source, { preserveWhitespace: true })
+    const restored = tokens
+      .map(token => source.slice(token.span.start.offset, token.span.end.offset))
+      .join('')
+
+    expect(restored).toBe(source)
+  })
+
+  it('ロスレスモードでは不正なタグの中身もトークンに残し、元のソースを復元できる', () => {
+    const source = '<div "x" / a=\'b\'c>y</div foo=1 ><p =z>'
+    const tokens = tokenize(source, { preserveWhitespace: true })
+    const restored = tokens
+      .map(token => source.slice(token.span.start.offset, token.span.end.offset))
+      .join('')
+
+    expect(restored).toBe(source)
+    expect(
+      tokens.filter(token => token.type === 'HTML_TAG_INVALID').map(token => token.value),
+    ).toEqual(['"', '"', '/', 'foo=1 ', '='])
+  })
+
+  it('ロスレスモードでは要素間の空白をWHITESPACEトークンとして出力する', () => {
+    const tokens = tokenize('<p>a</p>\n<p>b</p>', { preserveWhitespace: true })
+
+    expect(tokens.map(token => [token.type, token.value])).toContainEqual(['WHITESPACE', '\n'])
+    expect(tokenize('<p>a</p>\n<p>b</p>').some(token => token.type === 'WHITESPACE')).toBe(false)
+  })
+
+  it('HTMLコメントをCOMMENTトークンとして出力する', () => {
+    const tokens = tokenize('<!-- License: MIT --><p>a</p>')
+
+    expect(tokens[0]).toMatchObject({ type: 'COMMENT', value: ' License: MIT ' })
+    expect(tokens[0].span.end.offset).toBe(21)
+  })
+
+  it('タグを開始しない<はテキストとして扱う', () => {
+    const tokens = tokenize('<p>1 < 2 }</p>')
+
+    expect(tokens.filter(token => token.type === 'TEXT').map(token => token.value)).toEqual([
+      '1 ',
+      '< 2 ',
+      '}',
+    ])
+  })
+
+  it('DOCTYPEを大文字小文字を区別せずにトークン化できる', () => {
+    expect(tokenize('<!DOCTYPE html>')[0]).toMatchObject({ type: 'DOCTYPE', value: 'html' })
+    expect(tokenize('<!doctype html>')[0]).toMatchObject({ type: 'DOCTYPE', value: 'html' })
+  })
+
+  it('処理命令をトークン化できる', () => {
+    const tokens = tokenize('<?xml version="1.0"?><svg></svg>')
+
+    expect(tokens[0]).toMatchObject({ type: 'PROCESSING_INSTRUCTION', value: 'xml version="1.0"' })
+    expect(tokens[1]).toMatchObject({ type: 'HTML_TAG_OPEN' })
+  })
+
+  it('script要素の中身はマークアップとして解析しない', () => {
+    const source = '<script>if (a < b) { render(`<p>${a}</p>`) }</script>'
+    const tokens = tokenize(source)
+
+    expect(tokens.map(token => token.type)).toEqual([
+      'HTML_TAG_OPEN',
+      'HTML_TAG_NAME',
+      'HTML_TAG_CLOSE',
+      'RAW_TEXT',
+      'HTML_TAG_CLOSE',
+      'HTML_TAG_NAME',
+      'HTML_TAG_CLOSE',
+      'EOF',
+    ])
+    expect(tokens[3].value).toBe('if (a < b) { render(`<p>${a}</p>`) }')
+  })
+
+  it('title要素ではタグを解析せず式のみを認識する', () => {
+    const tokens = tokenize('<title>A <b> {title}</title>')
+
+    expect(tokens.slice(3, 7).map(token => [token.type, token.value])).toEqual([
+      ['TEXT', 'A <b> '],
+      ['EXPRESSION_START', '{'],
+      ['EXPRESSION_CONTENT', 'title'],
+      ['EXPRESSION_END', '}'],
+    ])
+  })
+
+  it('式の境界をJavaScriptの構文に従って判定する', () => {
+    const tokens = tokenize('<p>{"}"}{`${a}`}{/* } */ x}</p>')
+
+    expect(
+      tokens.filter(token => token.type === 'EXPRESSION_CONTENT').map(token => token.value),
+    ).toEqual(['"}"', '`${a}`', '/* } */ x'])
+  })
+
+  it('HTMLの属性名の文字集合と引用符なしの値をトークン化できる', () => {
+    const tokens = tokenize('<input @click=go x.y _foo aria-label=Name value=3 disabled/>')
+
+    expect(
+      tokens
+        .filter(token => token.type.startsWith('HTML_ATTRIBUTE'))
+        .map(token => `${token.type.replace('HTML_ATTRIBUTE_', '')}:${token.value}`),
+    ).toEqual([
+      'NAME:@click',
+      'EQUALS:=',
+      'VALUE:go',
+      'NAME:x.y',
+      'NAME:_foo',
+      'NAME:aria-label',
+      'EQUALS:=',
+      'VALUE:Name',
+      'NAME:value',
+      'EQUALS:=',
+      'VALUE:3',
+      'NAME:disabled',
+    ])
+    expect(tokens.at(-2)?.type).toBe('HTML_TAG_SELF_CLOSE')
+  })
+
+  it('テンプレートリテラルの属性値を1つのトークンとして扱う', () => {
+    const tokens = tokenize('<a href=`/a>${b ? `}` : c}`>x</a>')
+
+    expect(tokens.find(token => token.type === 'HTML_ATTRIBUTE_TEMPLATE_LITERAL')?.value).toBe(
+      '`/a>${b ? `}` : c}`',
+    )
+    expect(tokens.find(token => token.type === 'TEXT')?.value).toBe('x')
+  })
+
+  it('<>フラグメントとメンバー式のコンポーネント名をトークン化できる', () => {
+    const tokens = tokenize('<><UI.Button /></>')
+
+    expect(tokens.map(token => [token.type, token.value])).toEqual([
+      ['HTML_TAG_OPEN', '<'],
+      ['HTML_TAG_NAME', ''],
+      ['HTML_TAG_CLOSE', '>'],
+      ['HTML_TAG_OPEN', '<'],
+      ['HTML_TAG_NAME', 'UI.Button'],
+      ['HTML_TAG_SELF_CLOSE', '/>'],
+      ['HTML_TAG_CLOSE', '</'],
+      ['HTML_TAG_NAME', ''],
+      ['HTML_TAG_CLOSE', '>'],
+      ['EOF', ''],
+    ])
+  })
+
+  it('ファイル途中の---で囲まれたブロックもフロントマターのトークンにする', () => {
+    const tokens = tokenize('<p>a</p>\n---\nconst a = 1\n---\ntext --- more\n---')
+
+    expect(tokens.filter(token => token.type.startsWith('FRONTMATTER'))).toMatchObject([
+      { type: 'FRONTMATTER_START', span: { start: { offset: 9, line: 2, column: 1 } } },
+      { type: 'FRONTMATTER_CONTENT', value: 'const a = 1' },
+      { type: 'FRONTMATTER_END' },
+    ])
+    // 閉じる行のない---はテキストのまま
+    expect(tokens.at(-2)).toMatchObject({ type: 'TEXT', value: 'text --- more\n---' })
+  })
+
+  it('tokenizeIteratorはtokenizeと同じトークンを遅延して返す', () => {
+    const source = '---\nconst a = 1\n---\n<ul class="list">{items.map(i => <li>{i}</li>)}</ul>'
+    expect([...tokenizeIterator(source)]).toEqual(tokenize(source))
+    expect([...tokenizeIterator(source, { preserveWhitespace: true })]).toEqual(
+      tokenize(source, { preserveWhitespace: true }),
+    )
+
+    const iterator = tokenizeIterator(`<p>first</p>${'<p>more</p>'.repeat(1000)}`)
+    expect(iterator.next().value).toMatchObject({ type: 'HTML_TAG_OPEN', value: '<' })
+    iterator.return()
+  })
+
+  it('閉じられていない構文を診断として報告する', () => {
+    const codesFor = (source: string) => {
+      const diagnostics: Diagnostic[] = []
+      const tokens = tokenize(source, { onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+      expect(tokens.at(-1)?.type).toBe('EOF')
+      return diagnostics.map(diagnostic => diagnostic.code)
+    }
+
+    expect(codesFor('<a title="x>{name')).toEqual(['unterminated-attribute-value'])
+    expect(codesFor('<a href=`/${a}>x</a>')).toEqual(['unterminated-attribute-value'])
+    expect(codesFor('<p>{a</p>')).toEqual(['unterminated-expression'])
+    expect(codesFor('<!-- note')).toEqual(['unterminated-comment'])
+    expect(codesFor('---\nconst a = 1\n<p>a</p>')).toEqual(['unterminated-frontmatter'])
+    expect(codesFor('---\n---\n<p>{a}</p><!-- ok -->')).toEqual([])
+  })
+
+  it('診断にはトークンの位置とコードフレームが含まれる', () => {
+    const diagnostics: Diagnostic[] = []
+    tokenize('<div>\n  {name\n</div>', { onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+
+    expect(diagnostics[0]).toMatchObject({
+      severity: 'error',
+      span: { start: { offset: 8, line: 2, column: 3 }, end: { offset: 9, line: 2, column: 4 } },
+      hint: 'Add a closing `}` after the expression',
+    })
+    expect(diagnostics[0].frame).toContain('> 2 |   {name')
+  })
+
+  it('閉じられていない属性値のスパンはソースの末尾で終わる', () => {
+    const diagnostics: Diagnostic[] = []
+    const source = '<a title="x>\n{name'
+    const tokens = tokenize(source, { onDiagnostic: diagnostic => diagnostics.push(diagnostic) })
+    const end = { offset: 18, line: 2, column: 6 }
+
+    expect(tokens.find(token => token.type === 'HTML_ATTRIBUTE_VALUE')).toMatchObject({
+      value: 'x>\n{name',
+      span: { start: { offset: 9, line: 1, column: 10 }, end },
+    })
+    expect(diagnostics[0].span.end).toEqual(end)
+    expect(tokens.at(-1)?.span.start).toEqual(end)
+  })
 })
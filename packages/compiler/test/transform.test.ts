@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { buildHTML } from '../src/html-builder/index.js'
+import type { AstroNode, ElementNode } from '../src/parser/index.js'
+import { is, parse, transform } from '../src/parser/index.js'
+
+/**
+ * 属性なしの要素を作るヘルパー
+ */
+function element(name: string, children: AstroNode[] = []): ElementNode {
+  return { type: 'Element', name, attributes: [], children, selfClosing: false }
+}
+
+describe('transform', () => {
+  it('返したノードで置き換え、追加したノードは巡回しない', () => {
+    const ast = parse('<p><img src="a.png" /></p><img src="b.png" />')
+    const visited: string[] = []
+
+    transform(ast, node => {
+      if (!is.element(node)) return
+      visited.push(node.name)
+      if (node.name === 'img') {
+        return element('picture', [node])
+      }
+    })
+
+    expect(visited).toEqual(['p', 'img', 'img'])
+    expect(buildHTML(ast)).toBe(
+      '<p><picture><img src="a.png" /></picture></p><picture><img src="b.png" /></picture>',
+    )
+  })
+
+  it('配列で複数のノードに置き換え、removeで削除する', () => {
+    const ast = parse('<ul><li>a</li><li>b</li><li>c</li></ul>', { preserveWhitespace: true })
+
+    transform(ast, (node, { remove }) => {
+      if (!is.element(node) || node.name !== 'li') return
+      const text = node.children[0]
+      if (text.type !== 'Text') return
+      if (text.value === 'a') remove()
+      if (text.value === 'b') return [element('li', [text]), element('li', [text])]
+    })
+
+    expect(buildHTML(ast)).toBe('<ul><li>b</li><li>b</li><li>c</li></ul>')
+  })
+
+  it('前後に兄弟ノードを挿入しても元のノードを順に巡回する', () => {
+    const ast = parse('<head><title>x</title></head><main>y</main>')
+    const visited: string[] = []
+
+    transform(ast, (node, { insertBefore, insertAfter }) => {
+      if (!is.element(node)) return
+      visited.push(node.name)
+      if (node.name === 'title') insertBefore(element('style'))
+      if (node.name === 'main') insertAfter(element('script'), element('noscript'))
+    })
+
+    expect(visited).toEqual(['head', 'title', 'main'])
+    expect(buildHTML(ast)).toBe(
+      '<head><style></style><title>x</title></head><main>y</main><script></script><noscript></noscript>',
+    )
+  })
+
+  it('属性値の式を置き換えられる', () => {
+    const ast = parse('<a href={url} {...props}>x</a>')
+
+    transform(ast, node => {
+      if (is.expression(node) && node.value === 'url') {
+        return { type: 'Expression', value: 'withBase(url)' }
+      }
+    })
+
+    const link = ast.children[0].type === 'Template' && ast.children[0].children[0]
+    expect(link && link.type === 'Element' && link.attributes.map(attr => attr.value)).toEqual([
+      { type: 'Expression', value: 'withBase(url)' },
+      expect.objectContaining({ type: 'Expression', value: 'props' }),
+    ])
+  })
+
+  it('子リスト以外の位置でできない変更はエラーにする', () => {
+    const attribute = () =>
+      transform(parse('<a href={url}>x</a>'), (node, { remove }) => {
+        if (is.expression(node)) remove()
+      })
+    const root = () => transform(parse('<a>x</a>'), node => (is.program(node) ? [] : undefined))
+
+    expect(attribute).toThrow("Can't remove an attribute or directive value")
+    expect(root).toThrow("Can't replace the root node with 0 nodes")
+  })
+})
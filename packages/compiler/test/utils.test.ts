@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest'
+import * as compiler from '../src/index.js'
 import { is, parse, walk, walkAsync } from '../src/parser/index.js'
 
 describe('パーサーユーティリティ', () => {
@@ -15,7 +16,7 @@ const title = 'Test'
       visited.push(node.type)
     })
 
-    expect(visited).toEqual(['Program', 'Frontmatter', 'Element', 'Text', 'Expression'])
+    expect(visited).toEqual(['Program', 'Frontmatter', 'Template', 'Element', 'Text', 'Expression'])
   })
 
   it('isヘルパーでノードタイプを正しく判定できる', () => {
@@ -83,7 +84,7 @@ const title = 'Test'
       visited.push(node.type)
     })
 
-    expect(visited).toEqual(['Program', 'Element', 'Text', 'Expression'])
+    expect(visited).toEqual(['Program', 'Template', 'Element', 'Text', 'Expression'])
   })
 
   it('親ノードとプロパティ情報が正しく渡される', () => {
@@ -101,8 +102,240 @@ const title = 'Test'
 
     expect(nodeInfo).toEqual([
       { type: 'Program', parentType: undefined, prop: undefined },
-      { type: 'Element', parentType: 'Program', prop: 'children' },
+      { type: 'Template', parentType: 'Program', prop: 'children' },
+      { type: 'Element', parentType: 'Template', prop: 'children' },
       { type: 'Text', parentType: 'Element', prop: 'children' },
     ])
   })
+
+  it('コメントノードも巡回される', () => {
+    const ast = parse('<div><!-- note -->text</div>')
+    const comments: string[] = []
+
+    walk(ast, node => {
+      if (is.comment(node)) {
+        comments.push(node.value)
+      }
+    })
+
+    expect(comments).toEqual([' note '])
+  })
+
+  it('省略形属性とスプレッド属性の式も巡回される', () => {
+    const ast = parse('<Card {title} {...props} href={url} />')
+    const expressions: Array<{ value: string; parent?: string }> = []
+
+    walk(ast, (node, parent) => {
+      if (is.expression(node)) {
+        expressions.push({ value: node.value, parent: parent?.type })
+      }
+    })
+
+    expect(expressions).toEqual([
+      { value: 'title', parent: 'Element' },
+      { value: 'props', parent: 'Element' },
+      { value: 'url', parent: 'Element' },
+    ])
+  })
+
+  it('式内のマークアップも巡回される', () => {
+    const ast = parse('<ul>{items.map(item => <li>{item}</li>)}</ul>')
+    const visited: string[] = []
+
+    walk(ast, node => {
+      if (is.element(node)) visited.push(node.name)
+      if (is.expression(node)) visited.push(`{${node.value}}`)
+    })
+
+    expect(visited).toEqual(['ul', '{items.map(item => <li>{item}</li>)}', 'li', '{item}'])
+  })
+})
+
+describe('walk(ast, visitor)', () => {
+  it('enter・leaveと型ごとのコールバックを呼ぶ', () => {
+    const ast = parse('<a href={url}>Hi {name}</a>')
+    const calls: string[] = []
+
+    walk(ast, {
+      enter(node) {
+        calls.push(`enter ${node.type}`)
+      },
+      leave(node) {
+        calls.push(`leave ${node.type}`)
+      },
+      Element(node) {
+        calls.push(`<${node.name}>`)
+      },
+    })
+
+    expect(calls).toEqual([
+      'enter Program',
+      'enter Template',
+      'enter Element',
+      '<a>',
+      'enter Expression',
+      'leave Expression',
+      'enter Text',
+      'leave Text',
+      'enter Expression',
+      'leave Expression',
+      'leave Element',
+      'leave Template',
+      'leave Program',
+    ])
+  })
+
+  it('親・キー・インデックスを実際の値で渡す', () => {
+    const ast = parse('<Card title={title}><p>x</p></Card>')
+    const seen: unknown[] = []
+
+    walk(ast, {
+      Expression(node, parent, key, index) {
+        seen.push([node.value, parent?.type, parent && 'name' in parent && parent.name, key, index])
+      },
+      Text(node, parent, key, index) {
+        seen.push([node.value, parent?.type, parent && 'name' in parent && parent.name, key, index])
+      },
+    })
+
+    expect(seen).toEqual([
+      ['title', 'Attribute', 'title', 'value', null],
+      ['x', 'Element', 'p', 'children', 0],
+    ])
+  })
+
+  it('skipで子孫を飛ばし、stopで巡回を終える', () => {
+    const ast = parse('<Card><p>inside</p></Card><main><p>a</p><p>b</p></main>')
+    const visited: string[] = []
+
+    walk(ast, {
+      Element(node) {
+        visited.push(node.name)
+        if (node.kind === 'component') this.skip()
+      },
+      Text(node) {
+        visited.push(node.value)
+        if (node.value === 'a') this.stop()
+      },
+    })
+
+    expect(visited).toEqual(['Card', 'main', 'p', 'a'])
+  })
+
+  it('removeとreplaceで木を書き換える', () => {
+    const ast = parse('<ul><li>a</li><li>b</li><li>c</li></ul><img src={src} />')
+    const visited: string[] = []
+
+    walk(ast, {
+      Text(node) {
+        visited.push(node.value)
+        if (node.value === 'a') this.remove()
+        if (node.value === 'b') this.replace({ ...node, value: 'B' })
+      },
+      Expression(node) {
+        this.replace({ ...node, value: `optimize(${node.value})` })
+      },
+    })
+
+    const [list, image] = ast.children[0].type === 'Template' ? ast.children[0].children : []
+    expect(visited).toEqual(['a', 'b', 'c'])
+    expect(
+      list.type === 'Element' &&
+        list.children.map(item => item.type === 'Element' && item.children),
+    ).toEqual([
+      [],
+      [expect.objectContaining({ value: 'B' })],
+      [expect.objectContaining({ value: 'c' })],
+    ])
+    expect(image.type === 'Element' && image.attributes[0].value).toMatchObject({
+      value: 'optimize(src)',
+    })
+  })
+
+  it('ルートの置き換えと削除を戻り値で返す', () => {
+    const ast = parse('<p>x</p>')
+    const replacement = parse('<div />')
+
+    expect(walk(ast, {})).toBe(ast)
+    expect(
+      walk(ast, {
+        Program() {
+          this.replace(replacement)
+        },
+      }),
+    ).toBe(replacement)
+    expect(
+      walk(ast, {
+        Program() {
+          this.remove()
+        },
+      }),
+    ).toBeNull()
+  })
+})
+
+describe('walkAsync(ast, visitor)', () => {
+  it('コールバックの完了を待ってから次のノードへ進む', async () => {
+    const ast = parse('<a href={url}>Hi</a>')
+    const calls: string[] = []
+
+    await walkAsync(ast, {
+      async enter(node) {
+        await new Promise(resolve => setTimeout(resolve, 1))
+        calls.push(`enter ${node.type}`)
+      },
+      leave(node) {
+        calls.push(`leave ${node.type}`)
+      },
+    })
+
+    expect(calls).toEqual([
+      'enter Program',
+      'enter Template',
+      'enter Element',
+      'enter Expression',
+      'leave Expression',
+      'enter Text',
+      'leave Text',
+      'leave Element',
+      'leave Template',
+      'leave Program',
+    ])
+  })
+
+  it('非同期のコールバックからもskip・remove・replace・stopを使える', async () => {
+    const ast = parse('<Card><p>inside</p></Card><ul><li>a</li><li>b</li><li>c</li></ul>')
+    const visited: string[] = []
+
+    const result = await walkAsync(ast, {
+      async Element(node) {
+        await Promise.resolve()
+        if (node.name === 'Card') this.skip()
+      },
+      async Text(node) {
+        await Promise.resolve()
+        visited.push(node.value)
+        if (node.value === 'a') this.remove()
+        if (node.value === 'b') this.replace({ ...node, value: 'B' })
+        if (node.value === 'c') this.stop()
+      },
+    })
+
+    const list = ast.children[0].type === 'Template' ? ast.children[0].children[1] : undefined
+    expect(result).toBe(ast)
+    expect(visited).toEqual(['a', 'b', 'c'])
+    expect(
+      list?.type === 'Element' &&
+        list.children.map(item => item.type === 'Element' && item.children),
+    ).toEqual([
+      [],
+      [expect.objectContaining({ value: 'B' })],
+      [expect.objectContaining({ value: 'c' })],
+    ])
+  })
+
+  it('walkとwalkAsyncをパッケージのルートから使える', () => {
+    expect(compiler.walk).toBe(walk)
+    expect(compiler.walkAsync).toBe(walkAsync)
+  })
 })